@@ -0,0 +1,248 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for rewriting `process.env.KEY` reads to `env.KEY` after adopting createEnv().
+ *
+ * Usage:
+ *   next-env-guard-codemod [options] [paths...]
+ *
+ * Options:
+ *   --schema <path>      Path to env.mjs file (default: ./env.mjs)
+ *   --import <module>    Module to import `env` from (default: relative path to the schema file)
+ *   --dry-run            Print a unified diff instead of writing files
+ *   --help               Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ZodTypeAny } from 'zod';
+import { getEnvImportPath, getParsedEnvTypes, transformEnvUsages } from '../utils/codemod';
+import type { EnvUsage } from '../utils/codemod';
+import { createUnifiedDiff } from '../utils/diff';
+import { collectSourceFiles } from '../utils/source-files';
+import { loadEnvSchemas } from './schema-loader';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  schema?: string;
+  import?: string;
+  dryRun?: boolean;
+  paths: string[];
+  help?: boolean;
+}
+
+/**
+ * Result for a single scanned file.
+ */
+interface CodemodFileResult {
+  filePath: string;
+  rewritten: EnvUsage[];
+  undeclared: EnvUsage[];
+  conflict?: string;
+  diff?: string;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = { paths: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--schema':
+        options.schema = args[++i];
+        break;
+      case '--import':
+        options.import = args[++i];
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+        options.paths.push(arg);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-codemod [options] [paths...]
+
+Rewrite process.env.KEY reads of keys declared in your schema to env.KEY,
+and list reads of keys the schema doesn't declare.
+
+Options:
+  --schema <path>      Path to env.mjs file (default: ./env.mjs)
+  --import <module>    Module to import env from, e.g. @/env (default: relative path to the schema file)
+  --dry-run            Print a unified diff instead of writing files
+  --help, -h           Show this help message
+
+Examples:
+  next-env-guard-codemod --dry-run
+  next-env-guard-codemod src app --import @/env
+`);
+}
+
+/**
+ * Runs the codemod over the given paths.
+ */
+function runCodemod(options: CliOptions): {
+  success: boolean;
+  files?: CodemodFileResult[];
+  parsedTypes?: Record<string, string>;
+  errors?: string[];
+} {
+  const schemaPath = path.resolve(options.schema || path.join(process.cwd(), 'env.mjs'));
+  const targets = options.paths.length > 0 ? options.paths : [process.cwd()];
+
+  if (!fs.existsSync(schemaPath)) {
+    return {
+      success: false,
+      errors: [`ENV Schema file not found: ${schemaPath}`],
+    };
+  }
+
+  try {
+    const schema: Record<string, ZodTypeAny> = {};
+    for (const { server, client, shared } of loadEnvSchemas(schemaPath)) {
+      Object.assign(schema, server, client, shared);
+    }
+    const schemaKeys = new Set(Object.keys(schema));
+    const parsedTypes = getParsedEnvTypes(schema);
+
+    const files: CodemodFileResult[] = [];
+    for (const target of targets) {
+      for (const filePath of collectSourceFiles(path.resolve(target))) {
+        if (filePath === schemaPath) {
+          continue;
+        }
+
+        const source = fs.readFileSync(filePath, 'utf-8');
+        const result = transformEnvUsages(source, {
+          schemaKeys,
+          importPath: options.import || getEnvImportPath(filePath, schemaPath),
+        });
+        if (result.rewritten.length === 0 && result.undeclared.length === 0 && !result.conflict) {
+          continue;
+        }
+
+        const displayPath = path.relative(process.cwd(), filePath);
+        const fileResult: CodemodFileResult = {
+          filePath: displayPath,
+          rewritten: result.rewritten,
+          undeclared: result.undeclared,
+          conflict: result.conflict,
+        };
+
+        if (result.output !== source) {
+          if (options.dryRun) {
+            fileResult.diff = createUnifiedDiff(source, result.output, {
+              fromFile: `a/${displayPath}`,
+              toFile: `b/${displayPath}`,
+            });
+          } else {
+            fs.writeFileSync(filePath, result.output, 'utf-8');
+          }
+        }
+
+        files.push(fileResult);
+      }
+    }
+
+    return { success: true, files, parsedTypes };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const result = runCodemod(options);
+
+  if (!result.success) {
+    console.error('❌ Codemod failed:\n');
+    result.errors?.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  const files = result.files || [];
+  let rewrittenCount = 0;
+
+  for (const file of files) {
+    if (file.diff) {
+      process.stdout.write(file.diff);
+    }
+    if (file.conflict) {
+      console.warn(`⚠️  Skipped ${file.filePath}: ${file.conflict}`);
+    }
+    rewrittenCount += file.rewritten.length;
+  }
+
+  const undeclared = files.flatMap((file) =>
+    file.undeclared.map((usage) => `  ${file.filePath}:${usage.line}:${usage.column} ${usage.key}`),
+  );
+  if (undeclared.length > 0) {
+    console.log('\n📝 Reads of keys not declared in the schema (add them to use env.*):\n');
+    undeclared.forEach((line) => console.log(line));
+  }
+
+  // process.env values are always strings; env values are what the schema parses them to
+  const rewrittenKeys = new Set(files.flatMap((file) => file.rewritten.map((usage) => usage.key)));
+  const parsedKeys = Array.from(rewrittenKeys).filter((key) => result.parsedTypes?.[key]);
+  if (parsedKeys.length > 0) {
+    console.warn('\n⚠️  These variables are no longer strings after the rewrite. Check comparisons and string operations on them:\n');
+    parsedKeys.forEach((key) => console.warn(`  ${key}: ${result.parsedTypes?.[key]}`));
+  }
+
+  const changedFiles = files.filter((file) => file.rewritten.length > 0).length;
+  console.log(
+    options.dryRun
+      ? `\n🔍 Would rewrite ${rewrittenCount} read(s) in ${changedFiles} file(s)`
+      : `\n✅ Rewrote ${rewrittenCount} read(s) in ${changedFiles} file(s)`,
+  );
+  process.exit(0);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runCodemod, parseArgs, printHelp };
+export { getEnvImportPath, getParsedEnvTypes, transformEnvUsages } from '../utils/codemod';
+export type { EnvCodemodOptions, EnvCodemodResult, EnvUsage } from '../utils/codemod';
+export { createUnifiedDiff } from '../utils/diff';
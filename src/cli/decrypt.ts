@@ -0,0 +1,161 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for decrypting `.env.<env>.encrypted`, e.g. to edit it before encrypting again.
+ *
+ * Usage:
+ *   next-env-guard-decrypt [options]
+ *
+ * Options:
+ *   --env <name>      Environment to decrypt (default: production)
+ *   --input <path>    Encrypted file (default: ./.env.<env>.encrypted)
+ *   --out <path>      Write the plaintext here instead of printing it
+ *   --key <key>       Decryption key (default: $NEXT_ENV_GUARD_KEY)
+ *   --help            Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ENV_KEY_VARIABLE, decryptEnvFile, formatEnvFile, getEncryptedEnvFileName } from '../utils/env-crypto';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  env?: string;
+  input?: string;
+  out?: string;
+  key?: string;
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--env':
+        options.env = args[++i];
+        break;
+      case '--input':
+        options.input = args[++i];
+        break;
+      case '--out':
+        options.out = args[++i];
+        break;
+      case '--key':
+        options.key = args[++i];
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-decrypt [options]
+
+Decrypt a .env.<env>.encrypted file created by next-env-guard-encrypt.
+
+Options:
+  --env <name>      Environment to decrypt (default: production)
+  --input <path>    Encrypted file (default: ./.env.<env>.encrypted)
+  --out <path>      Write the plaintext here instead of printing it
+  --key <key>       Decryption key (default: $${ENV_KEY_VARIABLE})
+  --help, -h        Show this help message
+
+Examples:
+  ${ENV_KEY_VARIABLE}=... next-env-guard-decrypt --env production
+  ${ENV_KEY_VARIABLE}=... next-env-guard-decrypt --env staging --out .env.staging
+`);
+}
+
+/**
+ * Decrypts the encrypted file into .env content.
+ */
+function runDecrypt(options: CliOptions): { success: boolean; content?: string; errors?: string[] } {
+  const env = options.env || 'production';
+  const inputPath = options.input || path.join(process.cwd(), getEncryptedEnvFileName(env));
+  const key = options.key || process.env[ENV_KEY_VARIABLE];
+
+  if (!key) {
+    return {
+      success: false,
+      errors: [`No key. Set ${ENV_KEY_VARIABLE} or pass --key.`],
+    };
+  }
+  if (!fs.existsSync(inputPath)) {
+    return {
+      success: false,
+      errors: [`File not found: ${inputPath}`],
+    };
+  }
+
+  try {
+    const values = decryptEnvFile(fs.readFileSync(inputPath, 'utf-8'), key, inputPath);
+    return { success: true, content: formatEnvFile(values) };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const result = runDecrypt(options);
+
+  if (!result.success) {
+    console.error('❌ Could not decrypt the .env file:\n');
+    result.errors?.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  if (options.out) {
+    fs.writeFileSync(options.out, result.content as string, 'utf-8');
+    console.log(`✅ Wrote ${options.out}`);
+  } else {
+    process.stdout.write(result.content as string);
+  }
+  process.exit(0);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runDecrypt, parseArgs, printHelp };
+export { decryptEnvFile } from '../utils/env-crypto';
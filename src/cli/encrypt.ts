@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for encrypting a .env file into `.env.<env>.encrypted`, which can be committed.
+ *
+ * Usage:
+ *   next-env-guard-encrypt [options]
+ *
+ * Options:
+ *   --env <name>        Environment to encrypt (default: production)
+ *   --input <path>      Plaintext file (default: ./.env.<env>)
+ *   --out <path>        Encrypted file (default: ./.env.<env>.encrypted)
+ *   --key <key>         Encryption key (default: $NEXT_ENV_GUARD_KEY)
+ *   --rotate            Re-encrypt the existing encrypted file with a new key
+ *   --old-key <key>     Previous key for --rotate (default: $NEXT_ENV_GUARD_OLD_KEY)
+ *   --generate-key      Print a new random key and exit
+ *   --help              Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ENV_KEY_VARIABLE, encryptEnvFile, generateEnvKey, getEncryptedEnvFileName } from '../utils/env-crypto';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  env?: string;
+  input?: string;
+  out?: string;
+  key?: string;
+  rotate?: boolean;
+  oldKey?: string;
+  generateKey?: boolean;
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--env':
+        options.env = args[++i];
+        break;
+      case '--input':
+        options.input = args[++i];
+        break;
+      case '--out':
+        options.out = args[++i];
+        break;
+      case '--key':
+        options.key = args[++i];
+        break;
+      case '--rotate':
+        options.rotate = true;
+        break;
+      case '--old-key':
+        options.oldKey = args[++i];
+        break;
+      case '--generate-key':
+        options.generateKey = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-encrypt [options]
+
+Encrypt a .env file with AES-256-GCM into .env.<env>.encrypted, which is safe to commit.
+loadEnvFiles() decrypts it when ${ENV_KEY_VARIABLE} is set.
+
+Options:
+  --env <name>        Environment to encrypt (default: production)
+  --input <path>      Plaintext file (default: ./.env.<env>)
+  --out <path>        Encrypted file (default: ./.env.<env>.encrypted)
+  --key <key>         Encryption key (default: $${ENV_KEY_VARIABLE})
+  --rotate            Re-encrypt the existing encrypted file with a new key
+  --old-key <key>     Previous key for --rotate (default: $NEXT_ENV_GUARD_OLD_KEY)
+  --generate-key      Print a new random key and exit
+  --help, -h          Show this help message
+
+Examples:
+  next-env-guard-encrypt --generate-key
+  ${ENV_KEY_VARIABLE}=... next-env-guard-encrypt --env production
+  NEXT_ENV_GUARD_OLD_KEY=... ${ENV_KEY_VARIABLE}=... next-env-guard-encrypt --env production --rotate
+`);
+}
+
+/**
+ * Encrypts the input file, or re-encrypts the encrypted file with --rotate.
+ */
+function runEncrypt(options: CliOptions): { success: boolean; outPath?: string; count?: number; errors?: string[] } {
+  const env = options.env || 'production';
+  const outPath = options.out || path.join(process.cwd(), getEncryptedEnvFileName(env));
+  const inputPath = options.rotate ? outPath : options.input || path.join(process.cwd(), `.env.${env}`);
+  const key = options.key || process.env[ENV_KEY_VARIABLE];
+  const oldKey = options.oldKey || process.env.NEXT_ENV_GUARD_OLD_KEY;
+
+  if (!key) {
+    return {
+      success: false,
+      errors: [`No key. Set ${ENV_KEY_VARIABLE} or pass --key (create one with --generate-key).`],
+    };
+  }
+  if (options.rotate && !oldKey) {
+    return {
+      success: false,
+      errors: ['--rotate needs the previous key. Set NEXT_ENV_GUARD_OLD_KEY or pass --old-key.'],
+    };
+  }
+  if (!fs.existsSync(inputPath)) {
+    return {
+      success: false,
+      errors: [`File not found: ${inputPath}`],
+    };
+  }
+
+  try {
+    const content = encryptEnvFile(fs.readFileSync(inputPath, 'utf-8'), key, {
+      previousKey: options.rotate ? oldKey : undefined,
+      filePath: inputPath,
+    });
+    fs.writeFileSync(outPath, content, 'utf-8');
+    return {
+      success: true,
+      outPath,
+      count: content.split('\n').filter((line) => line && !line.startsWith('#')).length,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  if (options.generateKey) {
+    console.log(generateEnvKey());
+    process.exit(0);
+  }
+
+  const result = runEncrypt(options);
+
+  if (!result.success) {
+    console.error('❌ Could not encrypt the .env file:\n');
+    result.errors?.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  console.log(`✅ Encrypted ${result.count} variable(s) into ${result.outPath}`);
+  process.exit(0);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runEncrypt, parseArgs, printHelp };
+export { encryptEnvFile, generateEnvKey } from '../utils/env-crypto';
@@ -0,0 +1,188 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for generating and checking a .env.example file from your schema.
+ *
+ * Usage:
+ *   next-env-guard-example [options]
+ *
+ * Options:
+ *   --schema <path>    Path to env.mjs file (default: ./env.mjs)
+ *   --out <path>       Path to the example file (default: ./.env.example)
+ *   --check            Compare the existing example file with the schema instead of writing it
+ *   --help             Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { checkEnvExample, generateEnvExample } from '../utils/env-example';
+import { loadEnvSchemas } from './schema-loader';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  schema?: string;
+  out?: string;
+  check?: boolean;
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--schema':
+        options.schema = args[++i];
+        break;
+      case '--out':
+        options.out = args[++i];
+        break;
+      case '--check':
+        options.check = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-example [options]
+
+Generate a .env.example file from your schema, or check an existing one for drift.
+
+Options:
+  --schema <path>    Path to env.mjs file (default: ./env.mjs)
+  --out <path>       Path to the example file (default: ./.env.example)
+  --check            Fail if the example file has missing or stale keys
+  --help, -h         Show this help message
+
+Examples:
+  next-env-guard-example
+  next-env-guard-example --check
+  next-env-guard-example --schema ./src/env.mjs --out ./.env.example
+`);
+}
+
+/**
+ * Writes the example file, or checks it for drift in --check mode.
+ */
+function runExample(options: CliOptions): {
+  success: boolean;
+  outPath?: string;
+  missing?: string[];
+  stale?: string[];
+  errors?: string[];
+} {
+  const schemaPath = options.schema || path.join(process.cwd(), 'env.mjs');
+  const outPath = options.out || path.join(process.cwd(), '.env.example');
+
+  if (!fs.existsSync(schemaPath)) {
+    return {
+      success: false,
+      errors: [`ENV Schema file not found: ${schemaPath}`],
+    };
+  }
+
+  try {
+    const schemas = loadEnvSchemas(schemaPath);
+
+    if (!options.check) {
+      fs.writeFileSync(outPath, generateEnvExample(schemas), 'utf-8');
+      return { success: true, outPath };
+    }
+
+    if (!fs.existsSync(outPath)) {
+      return {
+        success: false,
+        errors: [`Example file not found: ${outPath}. Run next-env-guard-example to create it.`],
+      };
+    }
+
+    const { missing, stale } = checkEnvExample(fs.readFileSync(outPath, 'utf-8'), schemas);
+    return {
+      success: missing.length === 0 && stale.length === 0,
+      outPath,
+      missing,
+      stale,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const result = runExample(options);
+
+  if (result.errors) {
+    console.error('❌ Could not process .env.example:\n');
+    result.errors.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  if (!options.check) {
+    console.log(`✅ Wrote ${result.outPath}`);
+    process.exit(0);
+  }
+
+  if (result.success) {
+    console.log(`✅ ${result.outPath} is in sync with the schema`);
+    process.exit(0);
+  }
+
+  console.error(`❌ ${result.outPath} is out of sync with the schema:\n`);
+  result.missing?.forEach((key) => {
+    console.error(`  + ${key} (declared in the schema, missing from the example)`);
+  });
+  result.stale?.forEach((key) => {
+    console.error(`  - ${key} (in the example, no longer declared in the schema)`);
+  });
+  console.error('\nRun next-env-guard-example to regenerate it.');
+  process.exit(1);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runExample, parseArgs, printHelp };
+export { generateEnvExample, checkEnvExample } from '../utils/env-example';
+export type { EnvExampleSource, EnvExampleDrift } from '../utils/env-example';
@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for generating an env.d.ts declaration file from your schema.
+ *
+ * Usage:
+ *   next-env-guard-types [options]
+ *
+ * Options:
+ *   --schema <path>    Path to env.mjs file (default: ./env.mjs)
+ *   --out <path>       Path to the declaration file (default: ./env.d.ts)
+ *   --help             Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateEnvTypes } from '../utils/type-generator';
+import { loadEnvSchemas } from './schema-loader';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  schema?: string;
+  out?: string;
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--schema':
+        options.schema = args[++i];
+        break;
+      case '--out':
+        options.out = args[++i];
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-types [options]
+
+Generate an env.d.ts file that types process.env and window.__ENV from your schema.
+
+Options:
+  --schema <path>    Path to env.mjs file (default: ./env.mjs)
+  --out <path>       Path to the declaration file (default: ./env.d.ts)
+  --help, -h         Show this help message
+
+Examples:
+  next-env-guard-types
+  next-env-guard-types --schema ./src/env.mjs --out ./src/env.d.ts
+`);
+}
+
+/**
+ * Generates and writes the declaration file.
+ */
+function generateTypes(options: CliOptions): { success: boolean; outPath?: string; errors?: string[] } {
+  const schemaPath = options.schema || path.join(process.cwd(), 'env.mjs');
+  const outPath = options.out || path.join(process.cwd(), 'env.d.ts');
+
+  if (!fs.existsSync(schemaPath)) {
+    return {
+      success: false,
+      errors: [`ENV Schema file not found: ${schemaPath}`],
+    };
+  }
+
+  try {
+    const schemas = loadEnvSchemas(schemaPath);
+    fs.writeFileSync(outPath, generateEnvTypes(schemas), 'utf-8');
+    return { success: true, outPath };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const result = generateTypes(options);
+
+  if (result.success) {
+    console.log(`✅ Wrote environment types to ${result.outPath}`);
+    process.exit(0);
+  } else {
+    console.error('❌ Could not generate environment types:\n');
+    if (result.errors) {
+      result.errors.forEach((error) => {
+        console.error(`  ${error}`);
+      });
+    }
+    process.exit(1);
+  }
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { generateTypes, parseArgs, printHelp };
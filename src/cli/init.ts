@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for creating an env.ts / env.mjs schema from your existing .env files.
+ *
+ * Usage:
+ *   next-env-guard-init [options]
+ *
+ * Options:
+ *   --env <path>         Path to .env file or directory (default: cwd)
+ *   --out <path>         Path to the schema file (default: ./env.ts if tsconfig.json exists, else ./env.mjs)
+ *   --include-optional   Mark variables that are empty in some .env files as optional
+ *   --client-prefix <p>  Prefix of client variables (default: NEXT_PUBLIC_)
+ *   --force              Overwrite an existing schema file
+ *   --help               Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { collectEnvSamples, generateEnvSchemaFile, inferEnvSchema } from '../utils/migrate';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  env?: string;
+  out?: string;
+  includeOptional?: boolean;
+  clientPrefix?: string;
+  force?: boolean;
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--env':
+        options.env = args[++i];
+        break;
+      case '--out':
+        options.out = args[++i];
+        break;
+      case '--include-optional':
+        options.includeOptional = true;
+        break;
+      case '--client-prefix':
+        options.clientPrefix = args[++i];
+        break;
+      case '--force':
+        options.force = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-init [options]
+
+Create an env.ts / env.mjs schema from your existing .env files.
+Types are inferred from the values (booleans, integers, ports, URLs, emails, JSON,
+and enums for values that differ between environments).
+
+Options:
+  --env <path>         Path to .env file or directory (default: cwd)
+  --out <path>         Path to the schema file (default: ./env.ts if tsconfig.json exists, else ./env.mjs)
+  --include-optional   Mark variables that are empty in some .env files as optional
+  --client-prefix <p>  Prefix of client variables (default: NEXT_PUBLIC_)
+  --force              Overwrite an existing schema file
+  --help, -h           Show this help message
+
+Examples:
+  next-env-guard-init
+  next-env-guard-init --out ./src/env.ts
+  next-env-guard-init --env ./config --force
+  next-env-guard-init --client-prefix VITE_
+`);
+}
+
+/**
+ * Infers the schema from the .env files and writes it.
+ */
+function runInit(options: CliOptions): {
+  success: boolean;
+  outPath?: string;
+  serverCount?: number;
+  clientCount?: number;
+  errors?: string[];
+} {
+  const cwd = process.cwd();
+  const envPath = options.env || cwd;
+  const outPath = options.out ||
+    path.join(cwd, fs.existsSync(path.join(cwd, 'tsconfig.json')) ? 'env.ts' : 'env.mjs');
+
+  if (fs.existsSync(outPath) && !options.force) {
+    return {
+      success: false,
+      errors: [`${outPath} already exists. Use --force to overwrite it.`],
+    };
+  }
+
+  try {
+    const variables = inferEnvSchema(collectEnvSamples(envPath), options.includeOptional, options.clientPrefix);
+
+    if (variables.length === 0) {
+      return {
+        success: false,
+        errors: [`No environment variables found in ${envPath}`],
+      };
+    }
+
+    fs.writeFileSync(outPath, generateEnvSchemaFile(variables, options.clientPrefix), 'utf-8');
+
+    return {
+      success: true,
+      outPath,
+      serverCount: variables.filter((variable) => variable.scope === 'server').length,
+      clientCount: variables.filter((variable) => variable.scope === 'client').length,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const result = runInit(options);
+
+  if (!result.success) {
+    console.error('❌ Could not create the schema file:\n');
+    result.errors?.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  console.log(
+    `✅ Wrote ${result.outPath} (${result.serverCount} server, ${result.clientCount} client variables)`,
+  );
+  console.log('📝 Review the inferred types, then import { env } from this file instead of using process.env.');
+  process.exit(0);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runInit, parseArgs, printHelp };
+export {
+  collectEnvSamples,
+  generateEnvSchemaFile,
+  inferEnvSchema,
+  inferZodSchema,
+  migrateFromDotenv,
+} from '../utils/migrate';
+export type { DotenvMigrationConfig, EnvSamples, InferredEnvVariable } from '../utils/migrate';
@@ -0,0 +1,216 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for scanning built client assets for server secret values.
+ * Run it after `next build`, e.g. as a `postbuild` script.
+ *
+ * Usage:
+ *   next-env-guard-scan-bundle [options]
+ *
+ * Options:
+ *   --schema <path>      Path to env.mjs file (default: ./env.mjs)
+ *   --dir <path>         Built client assets (default: ./.next/static)
+ *   --env <path>         Directory containing the .env files (default: cwd)
+ *   --min-length <n>     Skip values shorter than n characters (default: 8)
+ *   --all                Scan every server value, not just secret ones
+ *   --format <format>    Output format: json, human (default: human)
+ *   --help               Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { collectBundleSecrets, scanBundleForSecrets } from '../utils/bundle-scanner';
+import type { BundleScanResult } from '../utils/bundle-scanner';
+import { loadEnv } from '../utils/env-loader';
+import { loadEnvSchemas } from './schema-loader';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  schema?: string;
+  dir?: string;
+  env?: string;
+  minLength?: number;
+  all?: boolean;
+  format?: 'json' | 'human';
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--schema':
+        options.schema = args[++i];
+        break;
+      case '--dir':
+        options.dir = args[++i];
+        break;
+      case '--env':
+        options.env = args[++i];
+        break;
+      case '--min-length':
+        options.minLength = Number(args[++i]);
+        break;
+      case '--all':
+        options.all = true;
+        break;
+      case '--format':
+        options.format = args[++i] as 'json' | 'human';
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-scan-bundle [options]
+
+Scan built client assets for the values of secret server variables (marked
+with secret() or listed in createEnv's secrets), literal, base64 and
+URL-encoded. Run it after "next build".
+
+Options:
+  --schema <path>      Path to env.mjs file (default: ./env.mjs)
+  --dir <path>         Built client assets (default: ./.next/static)
+  --env <path>         Directory containing the .env files (default: cwd)
+  --min-length <n>     Skip values shorter than n characters (default: 8)
+  --all                Scan every server value, not just secret ones
+  --format <format>    Output format: json, human (default: human)
+  --help, -h           Show this help message
+
+Examples:
+  next-env-guard-scan-bundle
+  next-env-guard-scan-bundle --schema ./src/env.mjs --format json
+`);
+}
+
+/**
+ * Loads server variable values and scans the build output for them.
+ */
+function runBundleScan(options: CliOptions): {
+  success: boolean;
+  result?: BundleScanResult;
+  errors?: string[];
+} {
+  const schemaPath = options.schema || path.join(process.cwd(), 'env.mjs');
+
+  if (!fs.existsSync(schemaPath)) {
+    return {
+      success: false,
+      errors: [`ENV Schema file not found: ${schemaPath}`],
+    };
+  }
+
+  try {
+    const env = loadEnv({ cwd: options.env || process.cwd() });
+    const secrets = collectBundleSecrets(loadEnvSchemas(schemaPath), env, options.all);
+    if (Object.keys(secrets).length === 0 && options.format !== 'json') {
+      console.warn('⚠️  No secret server variables to scan for. Mark them with secret() or secrets, or pass --all.');
+    }
+
+    const result = scanBundleForSecrets({
+      directory: options.dir || path.join(process.cwd(), '.next', 'static'),
+      secrets,
+      minLength: options.minLength,
+    });
+    return { success: result.findings.length === 0, result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const format = options.format || 'human';
+  const { success, result, errors } = runBundleScan(options);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ success, ...result, errors }, null, 2));
+    process.exit(success ? 0 : 1);
+  }
+
+  if (errors) {
+    console.error('❌ Could not scan the build output:\n');
+    errors.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  const { scannedFiles, findings, skippedKeys } = result as BundleScanResult;
+
+  if (skippedKeys.length > 0) {
+    console.warn(`⚠️  Skipped unset or short values: ${skippedKeys.join(', ')}`);
+  }
+
+  if (success) {
+    console.log(`✅ No server secrets found in ${scannedFiles} built file(s)`);
+    process.exit(0);
+  }
+
+  // Group by file so each leaking chunk is listed once
+  const byFile = new Map<string, string[]>();
+  for (const { file, key, encoding, occurrences } of findings) {
+    const entries = byFile.get(file) || [];
+    entries.push(`${key} (${encoding}${occurrences > 1 ? `, ${occurrences}x` : ''})`);
+    byFile.set(file, entries);
+  }
+
+  console.error(`❌ Server secrets found in ${byFile.size} built file(s):\n`);
+  byFile.forEach((entries, file) => {
+    console.error(`  ${file}`);
+    entries.forEach((entry) => console.error(`    - ${entry}`));
+  });
+  console.error('\nCheck next.config "env" and process.env reads in client code. Rotate any secret that was deployed.');
+  process.exit(1);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runBundleScan, parseArgs, printHelp };
+export { scanBundleForSecrets } from '../utils/bundle-scanner';
+export type {
+  BundleScanOptions,
+  BundleScanResult,
+  BundleSecretFinding,
+  SecretEncoding,
+} from '../utils/bundle-scanner';
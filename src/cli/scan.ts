@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+/**
+ * CLI tool for finding server environment variables referenced from client code.
+ *
+ * Usage:
+ *   next-env-guard-scan [options]
+ *
+ * Options:
+ *   --schema <path>    Path to env.mjs file (default: ./env.mjs)
+ *   --root <path>      Project root to scan (default: cwd)
+ *   --format <format>  Output format: json, human (default: human)
+ *   --help             Show help message
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { scanForEnvLeaks } from '../utils/leak-scanner';
+import type { EnvLeakScanResult } from '../utils/leak-scanner';
+import { loadEnvSchemas } from './schema-loader';
+
+/**
+ * CLI options.
+ */
+interface CliOptions {
+  schema?: string;
+  root?: string;
+  format?: 'json' | 'human';
+  help?: boolean;
+}
+
+/**
+ * Parses command line arguments.
+ */
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    switch (arg) {
+      case '--schema':
+        options.schema = args[++i];
+        break;
+      case '--root':
+        options.root = args[++i];
+        break;
+      case '--format':
+        options.format = args[++i] as 'json' | 'human';
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(1);
+        }
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Prints help message.
+ */
+function printHelp(): void {
+  console.log(`
+Usage: next-env-guard-scan [options]
+
+Find server environment variables read from client components ('use client'
+modules, Pages Router pages and everything they import).
+
+Options:
+  --schema <path>    Path to env.mjs file (default: ./env.mjs)
+  --root <path>      Project root to scan (default: cwd)
+  --format <format>  Output format: json, human (default: human)
+  --help, -h         Show this help message
+
+Examples:
+  next-env-guard-scan
+  next-env-guard-scan --schema ./src/env.mjs --format json
+`);
+}
+
+/**
+ * Scans the project for server variables reachable from client code.
+ */
+function runScan(options: CliOptions): {
+  success: boolean;
+  result?: EnvLeakScanResult;
+  errors?: string[];
+} {
+  const schemaPath = options.schema || path.join(process.cwd(), 'env.mjs');
+  const root = options.root || process.cwd();
+
+  if (!fs.existsSync(schemaPath)) {
+    return {
+      success: false,
+      errors: [`ENV Schema file not found: ${schemaPath}`],
+    };
+  }
+
+  try {
+    const serverKeys = loadEnvSchemas(schemaPath).flatMap(({ server }) => Object.keys(server));
+    const result = scanForEnvLeaks({ root, serverKeys, schemaPath });
+    return { success: result.leaks.length === 0, result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      errors: [errorMessage],
+    };
+  }
+}
+
+/**
+ * Main CLI function.
+ */
+function main(): void {
+  const options = parseArgs();
+
+  if (options.help) {
+    printHelp();
+    process.exit(0);
+  }
+
+  const format = options.format || 'human';
+  const { success, result, errors } = runScan(options);
+
+  if (format === 'json') {
+    console.log(JSON.stringify({ success, ...result, errors }, null, 2));
+    process.exit(success ? 0 : 1);
+  }
+
+  if (errors) {
+    console.error('❌ Could not scan the project:\n');
+    errors.forEach((error) => {
+      console.error(`  ${error}`);
+    });
+    process.exit(1);
+  }
+
+  const { entries, scannedFiles, leaks } = result as EnvLeakScanResult;
+
+  if (success) {
+    console.log(`✅ No server variables referenced from client code (${entries.length} entry points, ${scannedFiles} modules)`);
+    process.exit(0);
+  }
+
+  console.error(`❌ Found ${leaks.length} server variable read(s) in client code:\n`);
+  leaks.forEach((leak) => {
+    console.error(`  ${leak.filePath}:${leak.line}:${leak.column} ${leak.key} (via ${leak.via})`);
+    if (leak.importChain.length > 1) {
+      console.error(`    imported from ${leak.importChain.slice(0, -1).reverse().join(' <- ')}`);
+    }
+  });
+  console.error('\nMove these reads to server code, or expose the values through NEXT_PUBLIC_ client variables.');
+  process.exit(1);
+}
+
+// Run CLI if executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main();
+}
+
+export { runScan, parseArgs, printHelp };
+export { scanForEnvLeaks } from '../utils/leak-scanner';
+export type { EnvLeak, EnvLeakScanOptions, EnvLeakScanResult } from '../utils/leak-scanner';
@@ -0,0 +1,52 @@
+/**
+ * Schema loading shared by the CLI tools.
+ * Loads the user's env module and recovers the schemas passed to createEnv().
+ */
+
+import * as path from 'path';
+import { getEnvSchema, getRegisteredEnvSchemas } from '../core/schema-metadata';
+import type { EnvSchemaMetadata } from '../core/schema-metadata';
+
+/**
+ * Loads an env module and returns the schemas its createEnv() calls registered.
+ *
+ * Validation errors thrown while the module loads are tolerated as long as
+ * createEnv() ran far enough to register its schema, so tools like type
+ * generation work even when the current environment is incomplete.
+ *
+ * @param schemaPath - Path to the env module (e.g. ./env.mjs)
+ * @returns Schema metadata for each env object the module created
+ * @throws The module's load error, or an Error if no schema could be found
+ */
+export function loadEnvSchemas(schemaPath: string): EnvSchemaMetadata[] {
+  const resolvedPath = path.resolve(schemaPath);
+  let schemaModule: Record<string, unknown> | undefined;
+  let loadError: unknown;
+
+  try {
+    // CLI uses require() for dynamic module loading (built to CJS)
+    // For TypeScript files, this might require ts-node or similar
+    schemaModule = require(resolvedPath);
+  } catch (error) {
+    loadError = error;
+  }
+
+  const exported = schemaModule ? getEnvSchema(schemaModule.env) : undefined;
+  if (exported) {
+    return [exported];
+  }
+
+  const registered = getRegisteredEnvSchemas();
+  if (registered.length > 0) {
+    return registered;
+  }
+
+  if (loadError) {
+    throw loadError;
+  }
+
+  throw new Error(
+    `Schema file ${schemaPath} does not export an "env" object. ` +
+      'Make sure to export: export const env = createEnv({ ... });',
+  );
+}
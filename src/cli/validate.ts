@@ -15,7 +15,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { loadEnv } from '../utils/env-loader';
+import { loadEnvWithSources } from '../utils/env-loader';
+import { formatEnvSource } from '../core/errors';
+import type { EnvValidationError } from '../core/errors';
+import type { EnvVariableSource } from '../core/types';
 
 /**
  * CLI options.
@@ -84,10 +87,54 @@ Examples:
 `);
 }
 
+/**
+ * A single invalid variable, with where its value came from.
+ */
+interface ValidationIssue {
+  key: string;
+  message: string;
+  received?: unknown;
+  secret?: boolean;
+  source?: EnvVariableSource;
+}
+
+/**
+ * Checks whether an error is an EnvValidationError.
+ * The schema module may load its own copy of the library, so instanceof can't be used.
+ */
+function isEnvValidationError(error: unknown): error is EnvValidationError {
+  return error instanceof Error &&
+    error.name === 'EnvValidationError' &&
+    Array.isArray((error as EnvValidationError).errors);
+}
+
+/**
+ * Makes file paths in a source relative to the working directory for display.
+ */
+function relativeSource(source: EnvVariableSource): EnvVariableSource {
+  const relative = (filePath: string) => path.relative(process.cwd(), filePath) || filePath;
+  return {
+    ...source,
+    filePath: source.filePath && relative(source.filePath),
+    overrides: source.overrides.map((location) => ({ ...location, filePath: relative(location.filePath) })),
+  };
+}
+
+/**
+ * Formats an issue as "KEY (from .env.local:3, overrides .env:1): message".
+ */
+function formatIssue({ key, message, received, source }: ValidationIssue): string {
+  let line = source ? `${key} (${formatEnvSource(source)}): ${message}` : `${key}: ${message}`;
+  if (received !== undefined) {
+    line += ` (received: ${typeof received === 'string' ? JSON.stringify(received) : String(received)})`;
+  }
+  return line;
+}
+
 /**
  * Validates environment variables.
  */
-function validate(options: CliOptions): { success: boolean; errors?: string[] } {
+function validate(options: CliOptions): { success: boolean; errors?: string[]; issues?: ValidationIssue[] } {
   const schemaPath = options.schema || path.join(process.cwd(), 'env.mjs');
   const envPath = options.env || process.cwd();
 
@@ -99,12 +146,16 @@ function validate(options: CliOptions): { success: boolean; errors?: string[] }
     };
   }
 
+  let sources: Record<string, EnvVariableSource> = {};
+
   try {
-    // Load environment variables (validation happens when accessing env)
-    // This ensures env vars are available for the schema file
-    void (typeof envPath === 'string' && fs.existsSync(envPath) && fs.statSync(envPath).isDirectory()
-      ? loadEnv({ cwd: envPath })
-      : loadEnv({ cwd: process.cwd() }));
+    // Load environment variables (validation happens when the schema is imported)
+    // and apply them to process.env so they are available to the schema file
+    const loaded = typeof envPath === 'string' && fs.existsSync(envPath) && fs.statSync(envPath).isDirectory()
+      ? loadEnvWithSources({ cwd: envPath })
+      : loadEnvWithSources({ cwd: process.cwd() });
+    sources = loaded.sources;
+    Object.assign(process.env, loaded.env);
 
     // Dynamically import and execute the schema
     // Note: This requires the schema file to export `env` or a `createEnv` result
@@ -129,6 +180,18 @@ function validate(options: CliOptions): { success: boolean; errors?: string[] }
 
     return { success: true };
   } catch (error) {
+    if (isEnvValidationError(error)) {
+      const issues: ValidationIssue[] = error.errors.map((entry) => ({
+        ...entry,
+        source: sources[entry.key] && relativeSource(sources[entry.key]),
+      }));
+      return {
+        success: false,
+        errors: issues.map(formatIssue),
+        issues,
+      };
+    }
+
     const errorMessage = error instanceof Error ? error.message : String(error);
     return {
       success: false,
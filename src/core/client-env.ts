@@ -4,18 +4,43 @@
  */
 
 import type { ZodTypeAny } from 'zod';
-import type { ClientEnv } from './types';
-import { EnvNotInitializedError } from './errors';
+import type { ClientEnv, ClientEnvOptions } from './types';
+import { EnvIntegrityError, EnvNotInitializedError } from './errors';
 import { isClient } from './detector';
-import { validateEnv } from './validator';
+import { DEFAULT_CLIENT_PREFIX, validateEnv } from './validator';
 import { validateWindowEnvIntegrity } from './security';
+import { PARSED_ENV_MARKER, SIGNATURE_MARKER, loadPublicEnv } from './public-env-loader';
+import { verifyEnvSignature } from './integrity';
 
 /**
  * Global type declaration for window.__ENV
  */
 declare global {
+  /**
+   * Shape of window.__ENV.
+   * Generated env.d.ts files augment this interface with the client schema's types.
+   */
+  interface NextEnvGuardPublicEnv {
+    [key: string]: unknown;
+  }
+
   interface Window {
-    __ENV?: Record<string, unknown>;
+    __ENV?: NextEnvGuardPublicEnv;
+  }
+}
+
+/**
+ * Checks the signature PublicEnvScript added to window.__ENV.
+ * 
+ * @throws EnvIntegrityError if the signature is missing or doesn't match
+ */
+function assertEnvSignature(envVars: Record<string, unknown>, envKey: string, integrityKey: string): void {
+  const signature = (envVars as Record<symbol, unknown>)[Symbol.for(SIGNATURE_MARKER)];
+  if (typeof signature !== 'string') {
+    throw new EnvIntegrityError(envKey, 'missing');
+  }
+  if (!verifyEnvSignature(JSON.stringify(envVars), signature, integrityKey)) {
+    throw new EnvIntegrityError(envKey, 'mismatch');
   }
 }
 
@@ -27,13 +52,16 @@ declare global {
  * @param runtimeEnv - Optional runtime environment (for fallback)
  * @param skipValidation - Whether to skip validation
  * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Client env options (e.g. integrity key)
  * @returns Validated client environment object
+ * @throws EnvIntegrityError if an integrity key is set and window.__ENV isn't signed with it
  */
 export function getClientEnv<T extends Record<string, ZodTypeAny>>(
   schema: T,
   runtimeEnv?: NodeJS.ProcessEnv,
   skipValidation = false,
   namespace?: string,
+  options: ClientEnvOptions = {},
 ): ClientEnv<T> {
   if (!isClient()) {
     // On server, return empty object (client vars are injected at runtime)
@@ -52,14 +80,25 @@ export function getClientEnv<T extends Record<string, ZodTypeAny>>(
       envVars = windowEnv as Record<string, unknown>;
     }
   }
+
+  // Values delivered as a JSON script element (PublicEnvScript mode="json")
+  if (!envVars) {
+    envVars = loadPublicEnv(namespace);
+  }
+
+  // Reject a payload that wasn't signed with our key, e.g. one defined by another script first
+  if (envVars && options.integrityKey) {
+    assertEnvSignature(envVars, envKey, options.integrityKey);
+  }
   
   // Fallback to process.env if window.__ENV is not available
+  const clientPrefix = options.clientPrefix ?? DEFAULT_CLIENT_PREFIX;
   if (!envVars && runtimeEnv) {
     // Fallback to process.env if window.__ENV is not available
-    // Filter to only NEXT_PUBLIC_ variables (optimized iteration)
+    // Filter to prefixed and declared (e.g. shared) variables (optimized iteration)
     envVars = {};
     for (const key in runtimeEnv) {
-      if (Object.prototype.hasOwnProperty.call(runtimeEnv, key) && key.startsWith('NEXT_PUBLIC_')) {
+      if (Object.prototype.hasOwnProperty.call(runtimeEnv, key) && (key.startsWith(clientPrefix) || key in schema)) {
         envVars[key] = runtimeEnv[key];
       }
     }
@@ -84,7 +123,7 @@ export function getClientEnv<T extends Record<string, ZodTypeAny>>(
       if (runtimeEnv) {
         envVars = {};
         for (const key in runtimeEnv) {
-          if (Object.prototype.hasOwnProperty.call(runtimeEnv, key) && key.startsWith('NEXT_PUBLIC_')) {
+          if (Object.prototype.hasOwnProperty.call(runtimeEnv, key) && (key.startsWith(clientPrefix) || key in schema)) {
             envVars[key] = runtimeEnv[key];
           }
         }
@@ -114,6 +153,11 @@ export function getClientEnv<T extends Record<string, ZodTypeAny>>(
     }
   }
 
+  // Values parsed on the server are already schema output and may not pass the input schema again
+  if ((envVars as Record<symbol, unknown>)[Symbol.for(PARSED_ENV_MARKER)] === true) {
+    return envVars as ClientEnv<T>;
+  }
+
   // Validate against schema if not skipping validation
   if (!skipValidation && Object.keys(schema).length > 0) {
     try {
@@ -140,6 +184,7 @@ export function getClientEnv<T extends Record<string, ZodTypeAny>>(
  * @param runtimeEnv - Runtime environment for fallback
  * @param skipValidation - Whether to skip validation
  * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Client env options (e.g. integrity key)
  * @returns Proxy object that provides type-safe access to client env vars
  */
 export function createClientEnvProxy<T extends Record<string, ZodTypeAny>>(
@@ -147,6 +192,7 @@ export function createClientEnvProxy<T extends Record<string, ZodTypeAny>>(
   runtimeEnv?: NodeJS.ProcessEnv,
   skipValidation = false,
   namespace?: string,
+  options: ClientEnvOptions = {},
 ): ClientEnv<T> {
   // Cache for validated environment variables
   let cachedEnv: ClientEnv<T> | null = null;
@@ -156,7 +202,7 @@ export function createClientEnvProxy<T extends Record<string, ZodTypeAny>>(
   // Lazy getter function with cached keys
   const getEnv = (): ClientEnv<T> => {
     if (cachedEnv === null) {
-      cachedEnv = getClientEnv(schema, runtimeEnv, skipValidation, namespace);
+      cachedEnv = getClientEnv(schema, runtimeEnv, skipValidation, namespace, options);
       // Cache keys array for better performance
       cachedKeys = Object.keys(cachedEnv);
     }
@@ -5,8 +5,11 @@
  * @internal
  */
 
-import type { CreateEnvConfig } from '../types';
+import type { CreateEnvConfig, EnvExtension, EnvPreset, EnvRefinement, FileSecretsOptions } from '../types';
 import type { ZodTypeAny } from 'zod';
+import { DEFAULT_CLIENT_PREFIX } from '../validator';
+import { getEnvSchema } from '../schema-metadata';
+import { isSecretSchema, secret } from '../secret';
 
 /**
  * Validates and normalizes configuration options.
@@ -18,7 +21,10 @@ export interface ConfigManager {
   validateConfig<
     TServer extends Record<string, ZodTypeAny>,
     TClient extends Record<string, ZodTypeAny>,
-  >(config: CreateEnvConfig<TServer, TClient>): NormalizedConfig<TServer, TClient>;
+    TShared extends Record<string, ZodTypeAny>,
+    TPrefix extends string,
+    TExtends extends readonly EnvExtension[],
+  >(config: CreateEnvConfig<TServer, TClient, TShared, TPrefix, TExtends>): NormalizedConfig<TServer, TClient, TShared>;
 
   /**
    * Gets default configuration values.
@@ -32,12 +38,19 @@ export interface ConfigManager {
 export interface NormalizedConfig<
   TServer extends Record<string, ZodTypeAny>,
   TClient extends Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, never>,
 > {
   server: TServer;
   client: TClient;
+  shared: TShared;
   runtimeEnv: NodeJS.ProcessEnv;
   skipValidation: boolean;
   namespace: string | undefined;
+  clientPrefix: string;
+  secrets: string[];
+  refinements: EnvRefinement[];
+  integrityKey: string | undefined;
+  fileSecrets: Required<FileSecretsOptions> | undefined;
   runtimeAdapter?: import('../runtime/runtime-adapter').RuntimeAdapter;
 }
 
@@ -47,11 +60,15 @@ export interface NormalizedConfig<
 export class EnvConfigManager implements ConfigManager {
   private static readonly DEFAULT_NAMESPACE = undefined;
   private static readonly DEFAULT_SKIP_VALIDATION = false;
+  private static readonly DEFAULT_FILE_SECRET_DIRECTORIES = ['/run/secrets', '/var/run/secrets'];
 
   validateConfig<
     TServer extends Record<string, ZodTypeAny>,
     TClient extends Record<string, ZodTypeAny>,
-  >(config: CreateEnvConfig<TServer, TClient>): NormalizedConfig<TServer, TClient> {
+    TShared extends Record<string, ZodTypeAny>,
+    TPrefix extends string,
+    TExtends extends readonly EnvExtension[],
+  >(config: CreateEnvConfig<TServer, TClient, TShared, TPrefix, TExtends>): NormalizedConfig<TServer, TClient, TShared> {
     // Validate namespace if provided
     if (config.namespace !== undefined) {
       if (typeof config.namespace !== 'string') {
@@ -66,21 +83,178 @@ export class EnvConfigManager implements ConfigManager {
       }
     }
 
+    // Validate clientPrefix
+    const clientPrefix: string = config.clientPrefix ?? DEFAULT_CLIENT_PREFIX;
+    if (typeof clientPrefix !== 'string' || clientPrefix.length === 0) {
+      throw new TypeError('clientPrefix must be a non-empty string');
+    }
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(clientPrefix)) {
+      throw new Error('clientPrefix can only contain alphanumeric characters and underscores');
+    }
+
     // Validate runtimeEnv
     if (!config.runtimeEnv || typeof config.runtimeEnv !== 'object') {
       throw new TypeError('runtimeEnv must be an object');
     }
 
+    // Merge schemas from `extends`
+    const { server, client, shared, namespaces, refinements } = this.mergeExtends(
+      config.extends ?? [],
+      (config.server || {}) as TServer,
+      (config.client || {}) as unknown as TClient,
+      (config.shared || {}) as TShared,
+    );
+
+    // Inherit the namespace of extended envs
+    if (config.namespace === undefined && namespaces.length > 1) {
+      throw new Error(
+        `extends combines envs with different namespaces (${namespaces.join(', ')}). ` +
+        'Set namespace to choose the one client variables are read from.',
+      );
+    }
+
+    // Validate secrets
+    const secrets: string[] = config.secrets ?? [];
+    if (!Array.isArray(secrets)) {
+      throw new TypeError('secrets must be an array of server variable names');
+    }
+    for (const key of secrets) {
+      if (!Object.prototype.hasOwnProperty.call(server, key)) {
+        throw new Error(`secrets contains "${String(key)}", which is not declared in the server schema`);
+      }
+    }
+
+    // Validate shared keys aren't also declared as server or client variables
+    for (const key of Object.keys(shared)) {
+      const section = Object.prototype.hasOwnProperty.call(server, key)
+        ? 'server'
+        : Object.prototype.hasOwnProperty.call(client, key)
+          ? 'client'
+          : undefined;
+      if (section) {
+        throw new Error(`"${key}" is declared in both the shared and ${section} schemas`);
+      }
+    }
+
+    // Validate refine
+    if (config.refine !== undefined && typeof config.refine !== 'function') {
+      throw new TypeError('refine must be a function');
+    }
+
+    // Validate integrityKey
+    if (config.integrityKey !== undefined && (typeof config.integrityKey !== 'string' || config.integrityKey.length === 0)) {
+      throw new TypeError('integrityKey must be a non-empty string');
+    }
+
+    // Validate fileSecrets
+    let fileSecrets: Required<FileSecretsOptions> | undefined;
+    if (config.fileSecrets) {
+      const directories = config.fileSecrets === true
+        ? EnvConfigManager.DEFAULT_FILE_SECRET_DIRECTORIES
+        : config.fileSecrets.directories ?? EnvConfigManager.DEFAULT_FILE_SECRET_DIRECTORIES;
+      if (!Array.isArray(directories) || directories.some((dir) => typeof dir !== 'string' || dir.length === 0)) {
+        throw new TypeError('fileSecrets.directories must be an array of directory paths');
+      }
+      fileSecrets = { directories };
+    }
+
     return {
-      server: (config.server || {}) as TServer,
-      client: (config.client || {}) as TClient,
+      server,
+      client,
+      shared,
       runtimeEnv: config.runtimeEnv,
       skipValidation: config.skipValidation ?? EnvConfigManager.DEFAULT_SKIP_VALIDATION,
-      namespace: config.namespace ?? EnvConfigManager.DEFAULT_NAMESPACE,
+      namespace: config.namespace ?? namespaces[0] ?? EnvConfigManager.DEFAULT_NAMESPACE,
+      clientPrefix,
+      secrets,
+      // Checks of extended envs run first
+      refinements: config.refine ? [...refinements, config.refine as unknown as EnvRefinement] : refinements,
+      integrityKey: config.integrityKey,
+      fileSecrets,
       runtimeAdapter: config.runtimeAdapter,
     };
   }
 
+  /**
+   * Merges the schemas of presets and createEnv() results under the config's own.
+   * A key the config declares in any section replaces the inherited schema for it,
+   * even in another section. Inherited keys must be in the same section; the later
+   * entry's schema wins, staying secret if an earlier one was.
+   * Refine checks of extended envs are collected once each.
+   *
+   * @throws {Error} If two entries declare a key in different sections
+   */
+  private mergeExtends<
+    TServer extends Record<string, ZodTypeAny>,
+    TClient extends Record<string, ZodTypeAny>,
+    TShared extends Record<string, ZodTypeAny>,
+  >(
+    extensions: readonly EnvExtension[],
+    server: TServer,
+    client: TClient,
+    shared: TShared,
+  ): { server: TServer; client: TClient; shared: TShared; namespaces: string[]; refinements: EnvRefinement[] } {
+    if (!Array.isArray(extensions)) {
+      throw new TypeError('extends must be an array of presets or createEnv() results');
+    }
+
+    const ownKeys = new Set([...Object.keys(server), ...Object.keys(client), ...Object.keys(shared)]);
+    const merged = {
+      server: {} as Record<string, ZodTypeAny>,
+      client: {} as Record<string, ZodTypeAny>,
+      shared: {} as Record<string, ZodTypeAny>,
+    };
+    const declaredBy = new Map<string, { label: string; section: keyof typeof merged }>();
+    const namespaces = new Set<string>();
+    const refinements = new Set<EnvRefinement>();
+
+    extensions.forEach((extension, index) => {
+      if (!extension || typeof extension !== 'object') {
+        throw new TypeError('extends must be an array of presets or createEnv() results');
+      }
+
+      const metadata = getEnvSchema(extension);
+      const preset = extension as EnvPreset;
+      const label = metadata
+        ? (metadata.namespace ? `env "${metadata.namespace}"` : `extends[${index}]`)
+        : `preset "${preset.name ?? index}"`;
+      if (metadata?.namespace) {
+        namespaces.add(metadata.namespace);
+      }
+      metadata?.refinements?.forEach((refine) => refinements.add(refine));
+
+      for (const section of ['server', 'client', 'shared'] as const) {
+        const schemas: Record<string, ZodTypeAny> = (metadata ? metadata[section] : preset[section as 'server' | 'shared']) ?? {};
+        for (const [key, schema] of Object.entries(schemas)) {
+          if (ownKeys.has(key)) {
+            continue;
+          }
+
+          const previous = declaredBy.get(key);
+          if (previous && previous.section !== section) {
+            throw new Error(
+              `"${key}" is declared by both ${previous.label} (${previous.section}) and ${label} (${section}). ` +
+              'Declare it in this createEnv() call to choose one.',
+            );
+          }
+          declaredBy.set(key, { label, section });
+          // Separately built schemas for the same key are usually equivalent, so the later one wins,
+          // but it mustn't drop an earlier secret() tag
+          const inherited = merged[section][key];
+          merged[section][key] = inherited && isSecretSchema(inherited) && !isSecretSchema(schema) ? secret(schema) : schema;
+        }
+      }
+    });
+
+    return {
+      server: { ...merged.server, ...server },
+      client: { ...merged.client, ...client },
+      shared: { ...merged.shared, ...shared },
+      namespaces: Array.from(namespaces),
+      refinements: Array.from(refinements),
+    };
+  }
+
   getDefaults(): Partial<CreateEnvConfig> {
     return {
       skipValidation: EnvConfigManager.DEFAULT_SKIP_VALIDATION,
@@ -0,0 +1,100 @@
+import type { ZodTypeAny } from 'zod';
+import type { CreateEnvConfig, EnvExtension, ExtendedEnv, MergedEnv } from './types';
+import { createEnv } from './create-env';
+import { configManager } from './config/config-manager';
+import { isServer } from './detector';
+import { getEnvSchema } from './schema-metadata';
+import { resolveSecrets } from './secret-provider';
+import type { SecretProvider } from './secret-provider';
+
+/**
+ * Configuration object for createEnvAsync function.
+ */
+export interface CreateEnvAsyncConfig<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  TExtends extends readonly EnvExtension[] = [],
+> extends CreateEnvConfig<TServer, TClient, TShared, TPrefix, TExtends> {
+  /**
+   * Providers that resolve server variables before validation.
+   */
+  providers: SecretProvider[];
+
+  /**
+   * Milliseconds before a provider lookup fails, unless the provider sets its own `timeout`.
+   * @default 5000
+   */
+  providerTimeout?: number;
+}
+
+/**
+ * Creates the environment object like createEnv(), after resolving server
+ * variables through secret providers. Variables set to `secretRef://<provider>/<path>`
+ * are resolved by the named provider, and variables missing from runtimeEnv are
+ * asked of each provider in priority order. Resolved values are treated as secrets.
+ * Client variables are never resolved, since they're inlined into the bundle at build time.
+ *
+ * @param config - createEnv() configuration plus secret providers
+ * @returns Merged environment object with type-safe access and security enforcement
+ *
+ * @throws {EnvSecretProviderError} If a provider fails or times out, or a secret reference can't be resolved
+ * @throws {EnvValidationError} If validation fails
+ *
+ * @example
+ * ```typescript
+ * import { createEnvAsync } from 'next-env-guard';
+ * import { fileSecretProvider } from 'next-env-guard/providers';
+ *
+ * export const env = await createEnvAsync({
+ *   server: { DATABASE_PASSWORD: z.string().min(1) },
+ *   runtimeEnv: process.env,
+ *   providers: [fileSecretProvider()],
+ * });
+ * ```
+ *
+ * @public
+ */
+export async function createEnvAsync<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, never>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  const TExtends extends readonly EnvExtension[] = [],
+>(
+  config: CreateEnvAsyncConfig<TServer, TClient, TShared, TPrefix, TExtends>,
+): Promise<MergedEnv<TServer, TClient, TShared> & ExtendedEnv<TExtends>> {
+  const { providers, providerTimeout, ...envConfig } = config;
+
+  if (!isServer() || !envConfig.runtimeEnv) {
+    return createEnv(envConfig);
+  }
+
+  // Server variables declared here or inherited through `extends`
+  const serverKeys = Object.keys(configManager.validateConfig(envConfig).server);
+  if (serverKeys.length === 0) {
+    return createEnv(envConfig);
+  }
+
+  const resolved = await resolveSecrets(
+    serverKeys,
+    envConfig.runtimeEnv,
+    providers ?? [],
+    { timeout: providerTimeout },
+  );
+
+  const resolvedKeys = Object.keys(resolved) as NonNullable<typeof envConfig.secrets>;
+  const env = createEnv({
+    ...envConfig,
+    runtimeEnv: { ...envConfig.runtimeEnv, ...resolved },
+    secrets: [...new Set([...(envConfig.secrets ?? []), ...resolvedKeys])],
+  });
+
+  // watchEnv() reloads keep the resolved values instead of reading the .env files
+  const metadata = getEnvSchema(env);
+  if (metadata) {
+    metadata.resolvedKeys = resolvedKeys;
+  }
+  return env;
+}
@@ -1,12 +1,18 @@
 import type { ZodTypeAny } from 'zod';
 import type {
   CreateEnvConfig,
+  EnvExtension,
+  ExtendedEnv,
+  EnvValidationIssue,
   MergedEnv,
 } from './types';
-import { validateClientVariableNames } from './validator';
+import { refineEnv, validateClientVariableNames } from './validator';
+import { EnvValidationError } from './errors';
 import { createSecureEnvProxy } from './security';
 import { createRuntimeAdapter } from './runtime';
 import { configManager } from './config/config-manager';
+import { attachEnvSchema, registerEnvSchema } from './schema-metadata';
+import { markSecretKeys } from './secret';
 
 /**
  * Creates a type-safe and validated environment variable object for Next.js.
@@ -28,13 +34,21 @@ import { configManager } from './config/config-manager';
  * 
  * @param config - Configuration object with server/client schemas and runtime environment
  * @param config.server - Schema for server-side environment variables (only accessible on server)
- * @param config.client - Schema for client-side environment variables (must have NEXT_PUBLIC_ prefix)
+ * @param config.client - Schema for client-side environment variables (must have the client prefix)
+ * @param config.clientPrefix - Prefix client variable names must start with (default: NEXT_PUBLIC_)
+ * @param config.shared - Schema for variables readable on both server and client (no prefix required)
+ * @param config.extends - Presets and other createEnv() results whose schemas are merged in
  * @param config.runtimeEnv - The runtime environment object (usually process.env)
  * @param config.skipValidation - Whether to skip validation (useful for build-time)
+ * @param config.secrets - Server variables whose values are redacted from errors and reports
+ * @param config.refine - Check over the parsed env for rules between variables (server only)
+ * @param config.integrityKey - Key for verifying the window.__ENV signature on the client
+ * @param config.fileSecrets - Read missing server variables from `KEY_FILE` files (Node.js server only)
  * @returns Merged environment object with type-safe access and security enforcement
  * 
- * @throws {EnvClientPrefixError} If any client variable doesn't start with NEXT_PUBLIC_
+ * @throws {EnvClientPrefixError} If any client variable doesn't start with the client prefix
  * @throws {EnvValidationError} If validation fails (with detailed error messages)
+ * @throws {EnvFileSecretError} If a `KEY_FILE` file can't be read or is outside the allowed directories
  * 
  * @example
  * ```typescript
@@ -61,37 +75,64 @@ import { configManager } from './config/config-manager';
 export function createEnv<
   TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
   TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, never>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  const TExtends extends readonly EnvExtension[] = [],
 >(
-  config: CreateEnvConfig<TServer, TClient>,
-): MergedEnv<TServer, TClient> {
+  config: CreateEnvConfig<TServer, TClient, TShared, TPrefix, TExtends>,
+): MergedEnv<TServer, TClient, TShared> & ExtendedEnv<TExtends> {
   // Normalize configuration with validation
   const normalizedConfig = configManager.validateConfig(config);
 
-  const { server, client, runtimeEnv, skipValidation, namespace, runtimeAdapter } = normalizedConfig;
+  const {
+    client,
+    shared,
+    runtimeEnv,
+    skipValidation,
+    namespace,
+    clientPrefix,
+    runtimeAdapter,
+    integrityKey,
+    fileSecrets,
+    refinements,
+  } = normalizedConfig;
+  const server = markSecretKeys(normalizedConfig.server, normalizedConfig.secrets);
+
+  // Register the schema before validating so tooling can read it even if validation throws
+  const metadata = { server, client, shared, namespace, clientPrefix, refinements, fileSecrets, runtimeEnv };
+  registerEnvSchema(metadata);
 
-  // Validate client variable names have NEXT_PUBLIC_ prefix (only check once)
+  // Validate client variable names have the client prefix (only check once)
   const clientKeys = Object.keys(client);
   if (clientKeys.length > 0) {
-    validateClientVariableNames(client);
+    validateClientVariableNames(client, clientPrefix);
   }
 
   // Get or create runtime adapter
   const adapter = runtimeAdapter || createRuntimeAdapter();
   const serverKeys = Object.keys(server);
 
+  // Server values aren't available on the client, so `refine` only runs on the server.
+  // When it runs, schema errors are collected so they are thrown together with its issues
+  const errors: EnvValidationIssue[] | undefined =
+    refinements.length > 0 && !skipValidation && adapter.isServer ? [] : undefined;
+
   // Validate server environment variables using adapter
   const serverEnv = adapter.validateServerEnv(
     server,
     runtimeEnv,
     skipValidation,
+    { fileSecrets, errors },
   );
 
   // Validate client environment variables using adapter
+  // Shared variables are read the same way, from window.__ENV on the client
   const clientEnv = adapter.validateClientEnv(
-    client,
+    { ...shared, ...client },
     runtimeEnv,
     skipValidation,
     namespace,
+    { integrityKey, clientPrefix, errors },
   );
 
   // Merge server and client env objects
@@ -102,12 +143,22 @@ export function createEnv<
   const mergedEnv = {
     ...serverEnv,
     ...(clientEnv as Record<string, unknown>),
-  } as MergedEnv<TServer, TClient>;
+  } as MergedEnv<TServer, TClient, TShared> & ExtendedEnv<TExtends>;
+  attachEnvSchema(mergedEnv, metadata);
+
+  // Check rules between variables over the ones that parsed, then throw every error at once
+  if (errors) {
+    const invalidKeys = new Set(errors.map((error) => error.key));
+    errors.push(...refineEnv(mergedEnv, refinements, { ...server, ...shared, ...client }, invalidKeys));
+    if (errors.length > 0) {
+      throw new EnvValidationError(errors);
+    }
+  }
 
   // Create a secure proxy that prevents server variable access on the client
   // Use Set for O(1) lookup performance
   const serverKeysSet = new Set(serverKeys);
-  const secureEnv = createSecureEnvProxy(mergedEnv, serverKeysSet, namespace);
+  const secureEnv = createSecureEnvProxy(mergedEnv, serverKeysSet, namespace, clientPrefix);
 
   return secureEnv;
 }
@@ -1,24 +1,45 @@
 import { observabilityHooks } from './hooks/observability';
+import type { EnvValidationIssue, EnvVariableSource } from './types';
+
+/**
+ * Formats where a variable came from, e.g. "from .env.local:3, overrides .env:1".
+ */
+export function formatEnvSource(source: EnvVariableSource): string {
+  const origin = source.origin === 'file' ? `${source.filePath}:${source.line}` : 'process.env';
+  const overrides = source.overrides.map((location) => `${location.filePath}:${location.line}`);
+  return overrides.length > 0
+    ? `from ${origin}, overrides ${overrides.join(', ')}`
+    : `from ${origin}`;
+}
 
 /**
  * Custom error class for environment variable validation errors.
  * Collects all validation errors and provides detailed error messages.
+ * Entries marked `secret` never carry their received value.
  */
 export class EnvValidationError extends Error {
-  public readonly errors: Array<{
-    key: string;
-    message: string;
-    received?: unknown;
-  }>;
+  public readonly errors: EnvValidationIssue[];
+
+  constructor(
+    errors: EnvValidationIssue[],
+  ) {
+    // Drop received values of secret variables so they don't reach the message or the hooks
+    errors = errors.map((err) => {
+      if (!err.secret) {
+        return err;
+      }
+      const { received: _received, ...redacted } = err;
+      return redacted;
+    });
 
-  constructor(errors: Array<{ key: string; message: string; received?: unknown }>) {
     // Optimize error message construction with template literals
     const errorCount = errors.length;
     const errorMessages: string[] = new Array(errorCount);
     
     for (let i = 0; i < errorCount; i++) {
       const err = errors[i];
-      let message = `  - ${err.key}: ${err.message}`;
+      const key = err.source ? `${err.key} (${formatEnvSource(err.source)})` : err.key;
+      let message = `  - ${key}: ${err.message}`;
       
       if (err.received !== undefined) {
         const receivedStr = typeof err.received === 'string' 
@@ -46,12 +67,12 @@ export class EnvValidationError extends Error {
  * Error thrown when attempting to access server-side environment variables on the client.
  */
 export class EnvSecurityError extends Error {
-  constructor(variableName: string) {
+  constructor(variableName: string, clientPrefix = 'NEXT_PUBLIC_') {
     // Use template literal for better performance
     const message = `❌ Security Error: Attempted to access server-side environment variable "${variableName}" on the client.
 
 Server-side environment variables can only be accessed in server components, API routes, and server-side code.
-If you need this variable on the client, prefix it with "NEXT_PUBLIC_" and add it to the "client" schema.`;
+If you need this variable on the client, prefix it with "${clientPrefix}" and add it to the "client" schema.`;
     super(message);
     this.name = 'EnvSecurityError';
     Error.captureStackTrace?.(this, EnvSecurityError);
@@ -63,15 +84,15 @@ If you need this variable on the client, prefix it with "NEXT_PUBLIC_" and add i
 }
 
 /**
- * Error thrown when client-side environment variables don't have the required NEXT_PUBLIC_ prefix.
+ * Error thrown when client-side environment variables don't have the required prefix (NEXT_PUBLIC_ by default).
  */
 export class EnvClientPrefixError extends Error {
-  constructor(variableName: string) {
+  constructor(variableName: string, clientPrefix = 'NEXT_PUBLIC_') {
     // Use template literal for better performance
     const message = `❌ Invalid client variable name: "${variableName}"
 
-Client-side environment variables must be prefixed with "NEXT_PUBLIC_" for security.
-Please rename "${variableName}" to "NEXT_PUBLIC_${variableName}".`;
+Client-side environment variables must be prefixed with "${clientPrefix}" for security.
+Please rename "${variableName}" to "${clientPrefix}${variableName}".`;
     super(message);
     this.name = 'EnvClientPrefixError';
     Error.captureStackTrace?.(this, EnvClientPrefixError);
@@ -92,3 +113,158 @@ Make sure to call createEnv() and export the result.`;
     Error.captureStackTrace?.(this, EnvNotInitializedError);
   }
 }
+
+/**
+ * Error thrown when a .env file contains invalid syntax.
+ * Includes the 1-based line and column of the problem.
+ */
+export class EnvParseError extends Error {
+  public readonly line: number;
+  public readonly column: number;
+  public readonly filePath?: string;
+
+  constructor(reason: string, line: number, column: number, filePath?: string) {
+    const location = `${filePath ?? '.env'}:${line}:${column}`;
+    const message = `❌ Invalid .env syntax at ${location}: ${reason}`;
+    super(message);
+    this.name = 'EnvParseError';
+    this.line = line;
+    this.column = column;
+    this.filePath = filePath;
+    Error.captureStackTrace?.(this, EnvParseError);
+  }
+}
+
+/**
+ * Error thrown when variable references in .env files form a cycle
+ * (e.g. `A=${B}` and `B=${A}`).
+ */
+export class EnvExpansionError extends Error {
+  public readonly chain: string[];
+
+  constructor(chain: string[]) {
+    const message = `❌ Circular reference while expanding environment variables: ${chain.join(' -> ')}
+
+Break the cycle by giving one of these variables a literal value.`;
+    super(message);
+    this.name = 'EnvExpansionError';
+    this.chain = chain;
+    Error.captureStackTrace?.(this, EnvExpansionError);
+  }
+}
+
+/**
+ * Error thrown when a client variable about to be injected into window.__ENV
+ * looks like a secret (a private key, an API token or a server variable's value).
+ * The values themselves are never included.
+ */
+export class EnvSecretLeakError extends Error {
+  public readonly findings: Array<{ key: string; detector: string; reason: string }>;
+
+  constructor(findings: Array<{ key: string; detector: string; reason: string }>) {
+    const lines = findings.map(({ key, detector, reason }) => `  - ${key} ${reason} (${detector})`);
+    const message = `❌ Refusing to expose client environment variables that look like secrets:
+
+${lines.join('\n')}
+
+Move secrets to the "server" schema, or allow a value with secretGuard: { allow: { KEY: ['detector'] } }.`;
+    super(message);
+    this.name = 'EnvSecretLeakError';
+    this.findings = findings;
+    Error.captureStackTrace?.(this, EnvSecretLeakError);
+
+    // Report to observability hooks
+    observabilityHooks.reportError(this, { findings });
+    observabilityHooks.trackEvent('env.secret.leak', { keyCount: new Set(findings.map(({ key }) => key)).size });
+  }
+}
+
+/**
+ * Error thrown when the window.__ENV payload doesn't carry a valid signature
+ * for the configured integrity key, e.g. because another script defined it first.
+ */
+export class EnvIntegrityError extends Error {
+  public readonly envKey: string;
+  public readonly reason: 'missing' | 'mismatch';
+
+  constructor(envKey: string, reason: 'missing' | 'mismatch') {
+    const problem = reason === 'missing' ? 'has no signature' : 'does not match its signature';
+    const message = `❌ Integrity check failed: window.${envKey} ${problem}.
+
+Another script may have defined window.${envKey} before PublicEnvScript ran.
+If not, make sure PublicEnvScript and createEnv() use the same integrityKey.`;
+    super(message);
+    this.name = 'EnvIntegrityError';
+    this.envKey = envKey;
+    this.reason = reason;
+    Error.captureStackTrace?.(this, EnvIntegrityError);
+
+    // Report to observability hooks
+    observabilityHooks.reportError(this, { envKey, reason });
+    observabilityHooks.trackEvent('env.integrity.violation', { envKey, reason });
+  }
+}
+
+/**
+ * Error thrown when a secret provider fails or times out while resolving a
+ * variable for createEnvAsync(), or a `secretRef://` URI can't be resolved.
+ * The resolved values themselves are never included.
+ */
+export class EnvSecretProviderError extends Error {
+  public readonly provider: string;
+  public readonly key: string;
+
+  constructor(provider: string, key: string, reason: string) {
+    const message = `❌ Secret provider "${provider}" could not resolve ${key}: ${reason}`;
+    super(message);
+    this.name = 'EnvSecretProviderError';
+    this.provider = provider;
+    this.key = key;
+    Error.captureStackTrace?.(this, EnvSecretProviderError);
+
+    // Report to observability hooks
+    observabilityHooks.reportError(this, { provider, key });
+    observabilityHooks.trackEvent('env.secret_provider.error', { provider });
+  }
+}
+
+/**
+ * Error thrown when a server variable can't be read from the file its
+ * `KEY_FILE` variable points to, or the file is outside the allowed directories.
+ */
+export class EnvFileSecretError extends Error {
+  public readonly key: string;
+  public readonly filePath: string;
+
+  constructor(key: string, filePath: string, reason: string) {
+    const message = `❌ Could not read ${key} from ${key}_FILE (${filePath}): ${reason}`;
+    super(message);
+    this.name = 'EnvFileSecretError';
+    this.key = key;
+    this.filePath = filePath;
+    Error.captureStackTrace?.(this, EnvFileSecretError);
+
+    // Report to observability hooks
+    observabilityHooks.reportError(this, { key, filePath });
+    observabilityHooks.trackEvent('env.file_secret.error', { key });
+  }
+}
+
+/**
+ * Error thrown when an encrypted .env file can't be decrypted, usually because
+ * NEXT_ENV_GUARD_KEY is not the key it was encrypted with.
+ */
+export class EnvDecryptionError extends Error {
+  public readonly filePath: string;
+  public readonly key?: string;
+
+  constructor(filePath: string, reason: string, key?: string) {
+    const target = key ? `${key} in ${filePath}` : filePath;
+    const message = `❌ Could not decrypt ${target}: ${reason}`;
+    super(message);
+    this.name = 'EnvDecryptionError';
+    this.filePath = filePath;
+    this.key = key;
+    Error.captureStackTrace?.(this, EnvDecryptionError);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * `_FILE` suffix convention for secrets mounted as files:
+ * `DATABASE_PASSWORD_FILE=/run/secrets/db` supplies DATABASE_PASSWORD.
+ *
+ * fs and path are loaded with process.getBuiltinModule(), or require() before
+ * Node.js 20.16, rather than imported, so bundlers don't pull them into client
+ * and Edge bundles that share this module.
+ *
+ * @internal
+ */
+
+import type { ZodTypeAny } from 'zod';
+import type { FileSecretsOptions } from './types';
+import { EnvFileSecretError } from './errors';
+import { markSecretKeys } from './secret';
+
+/**
+ * Suffix of variables that name a file holding the value.
+ */
+export const FILE_SECRET_SUFFIX = '_FILE';
+
+/**
+ * Loads fs and path without a static import.
+ * Falls back to require() where process.getBuiltinModule() is missing (Node.js < 20.16).
+ */
+function loadNodeModules(): { fs: typeof import('fs'); path: typeof import('path') } | undefined {
+  const getBuiltinModule = typeof process !== 'undefined' ? process.getBuiltinModule : undefined;
+  if (typeof getBuiltinModule === 'function') {
+    return { fs: getBuiltinModule('fs'), path: getBuiltinModule('path') };
+  }
+
+  // Only defined in CommonJS; referenced through a variable so bundlers don't resolve the modules
+  const nodeRequire: NodeRequire | undefined = typeof require === 'function' ? require : undefined;
+  if (!nodeRequire) {
+    return undefined;
+  }
+  try {
+    return { fs: nodeRequire('fs'), path: nodeRequire('path') };
+  } catch {
+    // ES module builds get a require() shim that throws
+    return undefined;
+  }
+}
+
+/**
+ * Reads missing variables from the files named by their `KEY_FILE` variables.
+ * Contents are trimmed. Variables that are already set are left alone.
+ *
+ * @param keys - Variables to read (the server schema's keys)
+ * @param runtimeEnv - The runtime environment object
+ * @param options - Directories files may be read from
+ * @returns The values read, by key
+ * @throws {EnvFileSecretError} If a file is outside the allowed directories or can't be read
+ */
+export function readFileSecrets(
+  keys: string[],
+  runtimeEnv: NodeJS.ProcessEnv,
+  options: Required<FileSecretsOptions>,
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  const pending = keys.filter((key) => {
+    const current = runtimeEnv[key];
+    return (current === undefined || current === '') && runtimeEnv[`${key}${FILE_SECRET_SUFFIX}`];
+  });
+  if (pending.length === 0) {
+    return values;
+  }
+
+  const modules = loadNodeModules();
+  if (!modules) {
+    throw new EnvFileSecretError(
+      pending[0],
+      runtimeEnv[`${pending[0]}${FILE_SECRET_SUFFIX}`] as string,
+      'fileSecrets requires Node.js 20.16 or later when next-env-guard is loaded as an ES module',
+    );
+  }
+  const { fs, path } = modules;
+
+  // Resolve symlinks so a link inside an allowed directory can't point outside it
+  const realpath = (target: string): string | undefined => {
+    try {
+      return fs.realpathSync(target);
+    } catch {
+      return undefined;
+    }
+  };
+  const directories = options.directories
+    .map((dir) => realpath(path.resolve(dir)))
+    .filter((dir): dir is string => dir !== undefined);
+
+  for (const key of pending) {
+    const filePath = runtimeEnv[`${key}${FILE_SECRET_SUFFIX}`] as string;
+    const resolved = realpath(path.resolve(filePath));
+    if (!resolved) {
+      throw new EnvFileSecretError(key, filePath, 'file does not exist');
+    }
+    if (!directories.some((dir) => resolved.startsWith(dir + path.sep))) {
+      throw new EnvFileSecretError(
+        key,
+        filePath,
+        `file is outside the allowed directories (${options.directories.join(', ')})`,
+      );
+    }
+
+    try {
+      values[key] = fs.readFileSync(resolved, 'utf-8').trim();
+    } catch (error) {
+      throw new EnvFileSecretError(key, filePath, (error as Error).message);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Fills missing server variables from their `KEY_FILE` files before validation,
+ * and marks those variables secret so their values stay out of errors.
+ *
+ * @param schema - Server schema
+ * @param runtimeEnv - The runtime environment object
+ * @param options - Directories files may be read from
+ * @returns The schema and environment to validate
+ * @throws {EnvFileSecretError} If a file is outside the allowed directories or can't be read
+ */
+export function applyFileSecrets<TServer extends Record<string, ZodTypeAny>>(
+  schema: TServer,
+  runtimeEnv: NodeJS.ProcessEnv,
+  options: Required<FileSecretsOptions>,
+): { schema: TServer; runtimeEnv: NodeJS.ProcessEnv } {
+  const fileValues = readFileSecrets(Object.keys(schema), runtimeEnv, options);
+  const fileKeys = Object.keys(fileValues);
+  if (fileKeys.length === 0) {
+    return { schema, runtimeEnv };
+  }
+  return { schema: markSecretKeys(schema, fileKeys), runtimeEnv: { ...runtimeEnv, ...fileValues } };
+}
@@ -0,0 +1,79 @@
+/**
+ * HMAC-SHA256 signatures for the window.__ENV payload.
+ * Built on the plain JavaScript SHA-256 because the client env is read
+ * synchronously, and Web Crypto only offers an async API.
+ *
+ * The key is in the client bundle, so anyone who can run a script on the page
+ * can also produce a valid signature. This detects a payload that was altered
+ * by accident (a stale cache, a rewriting proxy, a conflicting script), not an attack.
+ */
+
+import { SHA256_BLOCK_SIZE as BLOCK_SIZE, sha256 } from '../utils/sha256';
+
+/**
+ * Computes HMAC-SHA256 (RFC 2104).
+ *
+ * @param key - Secret key bytes
+ * @param message - Message bytes
+ * @returns 32-byte MAC
+ */
+export function hmacSha256(key: Uint8Array, message: Uint8Array): Uint8Array {
+  const blockKey = new Uint8Array(BLOCK_SIZE);
+  blockKey.set(key.length > BLOCK_SIZE ? sha256(key) : key);
+
+  const inner = new Uint8Array(BLOCK_SIZE + message.length);
+  const outer = new Uint8Array(BLOCK_SIZE + 32);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    inner[i] = blockKey[i] ^ 0x36;
+    outer[i] = blockKey[i] ^ 0x5c;
+  }
+  inner.set(message, BLOCK_SIZE);
+  outer.set(sha256(inner), BLOCK_SIZE);
+
+  return sha256(outer);
+}
+
+/**
+ * Converts bytes to lowercase hex.
+ */
+function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Signs a serialized env payload.
+ *
+ * @param serialized - `JSON.stringify()` of the env values
+ * @param key - Integrity key shared by the server and the client bundle
+ * @returns Hex-encoded HMAC-SHA256
+ */
+export function createEnvSignature(serialized: string, key: string): string {
+  const encoder = new TextEncoder();
+  return toHex(hmacSha256(encoder.encode(key), encoder.encode(serialized)));
+}
+
+/**
+ * Verifies a serialized env payload against its signature.
+ *
+ * @param serialized - `JSON.stringify()` of the env values
+ * @param signature - Hex signature from createEnvSignature()
+ * @param key - Integrity key shared by the server and the client bundle
+ * @returns True if the signature matches
+ */
+export function verifyEnvSignature(serialized: string, signature: string, key: string): boolean {
+  const expected = createEnvSignature(serialized, key);
+  if (expected.length !== signature.length) {
+    return false;
+  }
+
+  // Compare every character so the time taken doesn't reveal where they differ
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return difference === 0;
+}
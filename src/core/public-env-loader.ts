@@ -0,0 +1,169 @@
+/**
+ * Loaders for client environment variables delivered without an inline script:
+ * - PublicEnvScript's `json` mode renders `<script type="application/json">`,
+ *   which needs no inline execution and so no CSP nonce or hash
+ * - createPublicEnvRoute() serves them as JSON from a route handler, so static
+ *   HTML can be reused across deployments
+ */
+
+/**
+ * Description of the symbol PublicEnvScript sets on window.__ENV when the values
+ * were parsed by the client schema on the server.
+ */
+export const PARSED_ENV_MARKER = 'next-env-guard.parsed';
+
+/**
+ * Description of the symbol holding the payload's HMAC signature when
+ * PublicEnvScript is given an integrity key.
+ */
+export const SIGNATURE_MARKER = 'next-env-guard.signature';
+
+/**
+ * Gets the window property that holds the client variables.
+ *
+ * @param namespace - Optional namespace used in createEnv()
+ * @returns `__ENV`, or `__ENV_<namespace>__`
+ */
+export function getWindowEnvKey(namespace?: string): string {
+  return namespace ? `__ENV_${namespace}__` : '__ENV';
+}
+
+/**
+ * Gets the id of the JSON script element rendered in `json` mode.
+ *
+ * @param namespace - Optional namespace used in createEnv()
+ * @returns `__NEXT_ENV_DATA__`, or `__NEXT_ENV_DATA_<namespace>__`
+ */
+export function getEnvDataElementId(namespace?: string): string {
+  return namespace ? `__NEXT_ENV_DATA_${namespace}__` : '__NEXT_ENV_DATA__';
+}
+
+/**
+ * Reads window.__ENV (or its namespaced key) if it's already defined.
+ */
+function readWindowEnv(namespace?: string): Record<string, unknown> | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  const existing = (window as unknown as Record<string, unknown>)[getWindowEnvKey(namespace)];
+  return existing && typeof existing === 'object' ? (existing as Record<string, unknown>) : undefined;
+}
+
+/**
+ * Defines window.__ENV frozen and non-writable, like the inline script does.
+ */
+function defineWindowEnv(
+  values: Record<string, unknown>,
+  parsed: boolean,
+  namespace?: string,
+  signature?: string | null,
+): Record<string, unknown> {
+  if (parsed) {
+    Object.defineProperty(values, Symbol.for(PARSED_ENV_MARKER), { value: true });
+  }
+  if (signature) {
+    Object.defineProperty(values, Symbol.for(SIGNATURE_MARKER), { value: signature });
+  }
+  Object.defineProperty(window, getWindowEnvKey(namespace), {
+    value: Object.freeze(values),
+    writable: false,
+    configurable: false,
+  });
+  return values;
+}
+
+/**
+ * Reads the JSON script element and defines window.__ENV from it, frozen and
+ * non-writable like the inline script does. The client env calls this
+ * automatically; call it yourself only if other code reads window.__ENV directly.
+ *
+ * @param namespace - Optional namespace used in createEnv()
+ * @returns The client variables, or undefined outside the browser or without the element
+ */
+export function loadPublicEnv(namespace?: string): Record<string, unknown> | undefined {
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return undefined;
+  }
+
+  const existing = readWindowEnv(namespace);
+  if (existing) {
+    return existing;
+  }
+
+  const element = document.getElementById(getEnvDataElementId(namespace));
+  if (!element?.textContent) {
+    return undefined;
+  }
+
+  const values = JSON.parse(element.textContent) as Record<string, unknown>;
+  return defineWindowEnv(values, element.hasAttribute('data-parsed'), namespace, element.getAttribute('data-signature'));
+}
+
+/**
+ * Response body of createPublicEnvRoute().
+ */
+export interface PublicEnvPayload {
+  env: Record<string, unknown>;
+
+  /**
+   * Whether the values were parsed by the client schema on the server.
+   */
+  parsed: boolean;
+
+  /**
+   * HMAC of `JSON.stringify(env)`, when the route has an integrity key.
+   */
+  signature?: string;
+}
+
+/**
+ * Options for fetchPublicEnv.
+ */
+export interface FetchPublicEnvOptions {
+  /**
+   * URL of the createPublicEnvRoute() handler.
+   * @default '/api/env'
+   */
+  url?: string;
+
+  /**
+   * Optional namespace used in createEnv().
+   */
+  namespace?: string;
+
+  /**
+   * Options passed to fetch().
+   */
+  init?: RequestInit;
+}
+
+/**
+ * Fetches client variables from a createPublicEnvRoute() handler and defines
+ * window.__ENV from them. Await it before anything reads the client env, since
+ * the client env caches the first values it sees.
+ *
+ * @param options - Route URL, namespace and fetch options
+ * @returns The client variables
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * await fetchPublicEnv({ url: '/api/env' });
+ * ```
+ */
+export async function fetchPublicEnv(options: FetchPublicEnvOptions = {}): Promise<Record<string, unknown>> {
+  const { url = '/api/env', namespace, init } = options;
+
+  const existing = readWindowEnv(namespace);
+  if (existing) {
+    return existing;
+  }
+
+  const response = await fetch(url, { credentials: 'same-origin', ...init });
+  if (!response.ok) {
+    throw new Error(`Failed to load public environment variables from ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  const payload = (await response.json()) as PublicEnvPayload;
+  return defineWindowEnv(payload.env, payload.parsed, namespace, payload.signature);
+}
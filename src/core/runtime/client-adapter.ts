@@ -7,7 +7,7 @@
 
 import type { ZodTypeAny } from 'zod';
 import type { RuntimeAdapter } from './runtime-adapter';
-import type { ServerEnv, ClientEnv } from '../types';
+import type { ServerEnv, ClientEnv, ClientEnvOptions } from '../types';
 import { createClientEnvProxy } from '../client-env';
 
 /**
@@ -15,7 +15,7 @@ import { createClientEnvProxy } from '../client-env';
  */
 declare global {
   interface Window {
-    __ENV?: Record<string, unknown>;
+    __ENV?: NextEnvGuardPublicEnv;
     [key: string]: unknown;
   }
 }
@@ -43,10 +43,11 @@ export class ClientRuntimeAdapter implements RuntimeAdapter {
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
     namespace?: string,
+    options?: ClientEnvOptions,
   ): ClientEnv<TClient> {
     // On client, use proxy that reads from window.__ENV
     // The proxy handles lazy initialization and validation
-    return createClientEnvProxy(schema, runtimeEnv, skipValidation, namespace);
+    return createClientEnvProxy(schema, runtimeEnv, skipValidation, namespace, options);
   }
 
   getClientEnvKey(namespace?: string): string {
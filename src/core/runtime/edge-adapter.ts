@@ -8,7 +8,7 @@
 
 import type { ZodTypeAny } from 'zod';
 import type { RuntimeAdapter } from './runtime-adapter';
-import type { ServerEnv, ClientEnv } from '../types';
+import type { ServerEnv, ClientEnv, ClientEnvOptions, ServerEnvOptions } from '../types';
 import { validateEnv } from '../validator';
 
 /**
@@ -24,15 +24,17 @@ export class EdgeRuntimeAdapter implements RuntimeAdapter {
     schema: TServer,
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
+    options: ServerEnvOptions = {},
   ): ServerEnv<TServer> {
     // Edge Runtime has limited APIs, but validation works the same
+    // There is no filesystem, so the fileSecrets option is ignored
     if (skipValidation || Object.keys(schema).length === 0) {
       return Object.fromEntries(
         Object.keys(schema).map((key) => [key, runtimeEnv[key]])
       ) as ServerEnv<TServer>;
     }
 
-    return validateEnv(schema, runtimeEnv) as ServerEnv<TServer>;
+    return validateEnv(schema, runtimeEnv, options.errors) as ServerEnv<TServer>;
   }
 
   validateClientEnv<TClient extends Record<string, ZodTypeAny>>(
@@ -40,6 +42,7 @@ export class EdgeRuntimeAdapter implements RuntimeAdapter {
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
     _namespace?: string,
+    options: ClientEnvOptions = {},
   ): ClientEnv<TClient> {
     // On Edge Runtime (which is server-side), validate client vars
     if (skipValidation || Object.keys(schema).length === 0) {
@@ -48,7 +51,7 @@ export class EdgeRuntimeAdapter implements RuntimeAdapter {
       ) as ClientEnv<TClient>;
     }
 
-    return validateEnv(schema, runtimeEnv) as ClientEnv<TClient>;
+    return validateEnv(schema, runtimeEnv, options.errors) as ClientEnv<TClient>;
   }
 
   getClientEnvKey(namespace?: string): string {
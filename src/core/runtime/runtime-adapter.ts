@@ -6,7 +6,7 @@
  */
 
 import type { ZodTypeAny } from 'zod';
-import type { ServerEnv, ClientEnv } from '../types';
+import type { ServerEnv, ClientEnv, ClientEnvOptions, ServerEnvOptions } from '../types';
 
 /**
  * Runtime adapter interface that abstracts environment-specific behavior.
@@ -33,12 +33,14 @@ export interface RuntimeAdapter {
    * @param schema - Server environment variable schema
    * @param runtimeEnv - Runtime environment object
    * @param skipValidation - Whether to skip validation
+   * @param options - Server env options (e.g. file secrets)
    * @returns Validated server environment object
    */
   validateServerEnv<TServer extends Record<string, ZodTypeAny>>(
     schema: TServer,
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
+    options?: ServerEnvOptions,
   ): ServerEnv<TServer>;
 
   /**
@@ -48,6 +50,7 @@ export interface RuntimeAdapter {
    * @param runtimeEnv - Runtime environment object
    * @param skipValidation - Whether to skip validation
    * @param namespace - Optional namespace for window.__ENV
+   * @param options - Client env options (e.g. integrity key)
    * @returns Validated client environment object
    */
   validateClientEnv<TClient extends Record<string, ZodTypeAny>>(
@@ -55,6 +58,7 @@ export interface RuntimeAdapter {
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
     namespace?: string,
+    options?: ClientEnvOptions,
   ): ClientEnv<TClient>;
 
   /**
@@ -7,8 +7,9 @@
 
 import type { ZodTypeAny } from 'zod';
 import type { RuntimeAdapter } from './runtime-adapter';
-import type { ServerEnv, ClientEnv } from '../types';
+import type { ServerEnv, ClientEnv, ClientEnvOptions, ServerEnvOptions } from '../types';
 import { validateEnv } from '../validator';
+import { applyFileSecrets } from '../file-secrets';
 
 /**
  * Server-side runtime adapter.
@@ -23,14 +24,20 @@ export class ServerRuntimeAdapter implements RuntimeAdapter {
     schema: TServer,
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
+    options: ServerEnvOptions = {},
   ): ServerEnv<TServer> {
+    // Fill missing variables from their KEY_FILE files, and keep those values out of errors
+    if (options.fileSecrets) {
+      ({ schema, runtimeEnv } = applyFileSecrets(schema, runtimeEnv, options.fileSecrets));
+    }
+
     if (skipValidation || Object.keys(schema).length === 0) {
       return Object.fromEntries(
         Object.keys(schema).map((key) => [key, runtimeEnv[key]])
       ) as ServerEnv<TServer>;
     }
 
-    return validateEnv(schema, runtimeEnv) as ServerEnv<TServer>;
+    return validateEnv(schema, runtimeEnv, options.errors) as ServerEnv<TServer>;
   }
 
   validateClientEnv<TClient extends Record<string, ZodTypeAny>>(
@@ -38,6 +45,7 @@ export class ServerRuntimeAdapter implements RuntimeAdapter {
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
     _namespace?: string,
+    options: ClientEnvOptions = {},
   ): ClientEnv<TClient> {
     // On server, validate client vars but they'll be injected at runtime via PublicEnvScript
     if (skipValidation || Object.keys(schema).length === 0) {
@@ -46,7 +54,7 @@ export class ServerRuntimeAdapter implements RuntimeAdapter {
       ) as ClientEnv<TClient>;
     }
 
-    return validateEnv(schema, runtimeEnv) as ClientEnv<TClient>;
+    return validateEnv(schema, runtimeEnv, options.errors) as ClientEnv<TClient>;
   }
 
   getClientEnvKey(namespace?: string): string {
@@ -0,0 +1,114 @@
+/**
+ * Schema metadata attached to createEnv() results.
+ * Lets tooling (type generation, CLI commands) recover the schemas an env object
+ * was created from, even when validation failed while the env module was loading.
+ *
+ * @internal
+ */
+
+import type { ZodTypeAny } from 'zod';
+import type { EnvRefinement, FileSecretsOptions } from './types';
+
+/**
+ * Schemas and options an env object was created from.
+ */
+export interface EnvSchemaMetadata {
+  server: Record<string, ZodTypeAny>;
+  client: Record<string, ZodTypeAny>;
+  shared: Record<string, ZodTypeAny>;
+  namespace?: string;
+  clientPrefix?: string;
+  refinements?: EnvRefinement[];
+  fileSecrets?: Required<FileSecretsOptions>;
+
+  /**
+   * The runtimeEnv passed to createEnv(), for watchEnv() reloads.
+   */
+  runtimeEnv?: NodeJS.ProcessEnv;
+
+  /**
+   * Server variables createEnvAsync() resolved through secret providers.
+   * Their values are in `runtimeEnv`.
+   */
+  resolvedKeys?: string[];
+}
+
+/**
+ * Symbols are registered globally so that separately bundled entry points
+ * (e.g. the CLI and the copy of next-env-guard imported by the user's env module)
+ * see the same keys.
+ */
+const METADATA_KEY = Symbol.for('next-env-guard.schema');
+const REGISTRY_KEY = Symbol.for('next-env-guard.registry');
+
+type GlobalWithRegistry = typeof globalThis & {
+  [REGISTRY_KEY]?: Map<string, EnvSchemaMetadata>;
+};
+
+/**
+ * Gets the global schema registry, creating it on first use.
+ * Entries are keyed by namespace, so re-creating an env replaces its previous entry.
+ */
+function getRegistry(): Map<string, EnvSchemaMetadata> {
+  const globalObject = globalThis as GlobalWithRegistry;
+  if (!globalObject[REGISTRY_KEY]) {
+    globalObject[REGISTRY_KEY] = new Map();
+  }
+  return globalObject[REGISTRY_KEY];
+}
+
+/**
+ * Attaches schema metadata to an env object as a non-enumerable symbol property.
+ * The property is configurable so it doesn't break proxy invariants.
+ *
+ * @param env - The env object returned by createEnv()
+ * @param metadata - Schemas the env was created from
+ * @returns The same env object
+ */
+export function attachEnvSchema<T extends object>(env: T, metadata: EnvSchemaMetadata): T {
+  Object.defineProperty(env, METADATA_KEY, {
+    value: metadata,
+    enumerable: false,
+    writable: false,
+    configurable: true,
+  });
+  return env;
+}
+
+/**
+ * Reads the schema metadata from an object returned by createEnv().
+ *
+ * @param env - Value to inspect
+ * @returns Schema metadata, or undefined if the value wasn't created by createEnv()
+ */
+export function getEnvSchema(env: unknown): EnvSchemaMetadata | undefined {
+  if (env === null || (typeof env !== 'object' && typeof env !== 'function')) {
+    return undefined;
+  }
+  return (env as { [METADATA_KEY]?: EnvSchemaMetadata })[METADATA_KEY];
+}
+
+/**
+ * Records schema metadata in the global registry.
+ * Called before validation so tooling can still find the schema when validation throws.
+ *
+ * @param metadata - Schemas passed to createEnv()
+ */
+export function registerEnvSchema(metadata: EnvSchemaMetadata): void {
+  getRegistry().set(metadata.namespace ?? '', metadata);
+}
+
+/**
+ * Returns every schema registered by createEnv() calls in this process.
+ */
+export function getRegisteredEnvSchemas(): EnvSchemaMetadata[] {
+  return Array.from(getRegistry().values());
+}
+
+/**
+ * Clears the global schema registry.
+ * This is primarily useful for testing.
+ */
+export function clearRegisteredEnvSchemas(): void {
+  getRegistry().clear();
+}
@@ -0,0 +1,209 @@
+/**
+ * Secret providers resolve server variables from external stores (Vault, AWS
+ * Secrets Manager, mounted secret files, ...) before validation.
+ * Used by createEnvAsync().
+ */
+
+import { EnvSecretProviderError } from './errors';
+
+/**
+ * Scheme of runtimeEnv values that point at a provider instead of holding the value,
+ * e.g. `secretRef://vault/database#password`.
+ */
+export const SECRET_REF_PREFIX = 'secretRef://';
+
+/**
+ * A lookup passed to SecretProvider.resolve().
+ */
+export interface SecretRequest {
+  /**
+   * Name of the variable being resolved.
+   */
+  key: string;
+
+  /**
+   * Path after `secretRef://<provider>/`, when the variable holds a secret reference.
+   * Undefined when the provider is asked for a missing variable by its key.
+   */
+  ref?: string;
+
+  /**
+   * Aborted when the provider times out.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Resolves secrets from an external store.
+ */
+export interface SecretProvider {
+  /**
+   * Name used in `secretRef://<name>/...` URIs and error messages.
+   */
+  name: string;
+
+  /**
+   * Providers with a higher priority are asked first for missing variables.
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Milliseconds before a lookup fails. Overrides createEnvAsync's `providerTimeout`.
+   */
+  timeout?: number;
+
+  /**
+   * Milliseconds to cache resolved values for. Values aren't cached by default.
+   * @default 0
+   */
+  cacheTtl?: number;
+
+  /**
+   * Resolves a secret.
+   *
+   * @returns The value, or undefined if the provider doesn't have it
+   */
+  resolve(request: SecretRequest): Promise<string | undefined> | string | undefined;
+}
+
+/**
+ * Options for resolveSecrets.
+ */
+export interface ResolveSecretsOptions {
+  /**
+   * Milliseconds before a provider lookup fails.
+   * @default 5000
+   */
+  timeout?: number;
+}
+
+const cache = new Map<string, { value: Promise<string | undefined>; expires: number }>();
+
+/**
+ * Clears values cached by providers with a `cacheTtl`.
+ */
+export function clearSecretProviderCache(): void {
+  cache.clear();
+}
+
+/**
+ * Parses a `secretRef://<provider>/<path>` URI.
+ */
+function parseSecretRef(key: string, value: string): { provider: string; ref: string } {
+  const match = /^secretRef:\/\/([^/]+)\/(.+)$/.exec(value);
+  if (!match) {
+    throw new EnvSecretProviderError('unknown', key, `invalid secret reference, expected ${SECRET_REF_PREFIX}<provider>/<path>`);
+  }
+  return { provider: match[1], ref: match[2] };
+}
+
+/**
+ * Calls a provider, failing after its timeout.
+ */
+async function callProvider(provider: SecretProvider, key: string, ref: string | undefined, timeout: number): Promise<string | undefined> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new EnvSecretProviderError(provider.name, key, `timed out after ${timeout}ms`));
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([Promise.resolve(provider.resolve({ key, ref, signal: controller.signal })), timedOut]);
+  } catch (error) {
+    if (error instanceof EnvSecretProviderError) {
+      throw error;
+    }
+    throw new EnvSecretProviderError(provider.name, key, error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Calls a provider through the cache when it has a `cacheTtl`.
+ */
+function lookup(provider: SecretProvider, key: string, ref: string | undefined, timeout: number): Promise<string | undefined> {
+  const ttl = provider.cacheTtl ?? 0;
+  if (ttl <= 0) {
+    return callProvider(provider, key, ref, timeout);
+  }
+
+  // Cache the promise so concurrent lookups share one request
+  const cacheKey = ref === undefined ? `${provider.name}\0key\0${key}` : `${provider.name}\0ref\0${ref}`;
+  const cached = cache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) {
+    return cached.value;
+  }
+
+  const value = callProvider(provider, key, ref, timeout);
+  cache.set(cacheKey, { value, expires: Date.now() + ttl });
+  value.catch(() => cache.delete(cacheKey));
+  return value;
+}
+
+/**
+ * Resolves variables through secret providers:
+ * - values of the form `secretRef://<provider>/<path>` are resolved by the named provider
+ * - keys missing from runtimeEnv are asked of each provider, highest priority first,
+ *   until one returns a value
+ *
+ * @param keys - Variables to resolve (usually the server schema's keys)
+ * @param runtimeEnv - The runtime environment object
+ * @param providers - Secret providers
+ * @param options - Lookup timeout
+ * @returns The resolved values, by key. Keys no provider has are left out.
+ * @throws {EnvSecretProviderError} If a provider fails or times out, or a secret reference can't be resolved
+ */
+export async function resolveSecrets(
+  keys: string[],
+  runtimeEnv: Record<string, string | undefined>,
+  providers: SecretProvider[],
+  options: ResolveSecretsOptions = {},
+): Promise<Record<string, string>> {
+  const defaultTimeout = options.timeout ?? 5000;
+  const byName = new Map(providers.map((provider) => [provider.name, provider]));
+  const ordered = [...providers].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+
+  const entries = await Promise.all(
+    keys.map(async (key): Promise<[string, string | undefined]> => {
+      const current = runtimeEnv[key];
+
+      if (current?.startsWith(SECRET_REF_PREFIX)) {
+        const { provider: name, ref } = parseSecretRef(key, current);
+        const provider = byName.get(name);
+        if (!provider) {
+          throw new EnvSecretProviderError(name, key, 'no provider with this name is configured');
+        }
+        const value = await lookup(provider, key, ref, provider.timeout ?? defaultTimeout);
+        if (value === undefined) {
+          throw new EnvSecretProviderError(name, key, `${SECRET_REF_PREFIX}${name}/${ref} was not found`);
+        }
+        return [key, value];
+      }
+
+      if (current !== undefined && current !== '') {
+        return [key, undefined];
+      }
+
+      for (const provider of ordered) {
+        const value = await lookup(provider, key, undefined, provider.timeout ?? defaultTimeout);
+        if (value !== undefined) {
+          return [key, value];
+        }
+      }
+      return [key, undefined];
+    }),
+  );
+
+  const resolved: Record<string, string> = {};
+  for (const [key, value] of entries) {
+    if (value !== undefined) {
+      resolved[key] = value;
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,103 @@
+/**
+ * Secret variable tagging.
+ * Values of secret variables are never included in error messages,
+ * observability hooks or CLI output.
+ */
+
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Global key for the set of secret schemas, shared by every bundle of the library
+ * so a schema tagged in the user's env module is recognized by the CLI tools.
+ */
+const SECRET_SCHEMAS_KEY = Symbol.for('next-env-guard.secrets');
+
+/**
+ * Subset of Zod's internal `_def` used to look through wrappers such as `.optional()`.
+ */
+interface WrapperDef {
+  innerType?: ZodTypeAny;
+  schema?: ZodTypeAny;
+  in?: ZodTypeAny;
+}
+
+/**
+ * Gets the set of schemas tagged with secret().
+ */
+function getSecretSchemas(): WeakSet<ZodTypeAny> {
+  const store = globalThis as unknown as Record<symbol, WeakSet<ZodTypeAny> | undefined>;
+  let schemas = store[SECRET_SCHEMAS_KEY];
+  if (!schemas) {
+    schemas = new WeakSet();
+    store[SECRET_SCHEMAS_KEY] = schemas;
+  }
+  return schemas;
+}
+
+/**
+ * Tags a schema as secret. Its value is redacted from validation errors,
+ * error reports and CLI output.
+ *
+ * Returns a copy, so a schema shared between variables isn't tagged everywhere.
+ * Wrapping the result (e.g. `secret(z.string()).optional()`) keeps the tag.
+ *
+ * @param schema - Zod schema of the variable
+ * @returns A secret copy of the schema
+ *
+ * @example
+ * ```typescript
+ * export const env = createEnv({
+ *   server: {
+ *     DATABASE_URL: secret(z.string().url()),
+ *   },
+ *   runtimeEnv: process.env,
+ * });
+ * ```
+ */
+export function secret<T extends ZodTypeAny>(schema: T): T {
+  // describe() returns a new instance with the same definition
+  const copy = schema.describe(schema.description as string) as T;
+  getSecretSchemas().add(copy);
+  return copy;
+}
+
+/**
+ * Checks whether a schema, or a schema it wraps, was tagged with secret().
+ *
+ * @param schema - Zod schema to check
+ * @returns True if the variable is secret
+ */
+export function isSecretSchema(schema: ZodTypeAny): boolean {
+  const schemas = getSecretSchemas();
+
+  for (let current: ZodTypeAny | undefined = schema; current; ) {
+    if (schemas.has(current)) {
+      return true;
+    }
+    const def: WrapperDef | undefined = (current as unknown as { _def?: WrapperDef })._def;
+    current = def?.innerType ?? def?.schema ?? def?.in;
+  }
+
+  return false;
+}
+
+/**
+ * Tags the schemas of the given keys as secret.
+ *
+ * @param schema - Record of Zod schemas
+ * @param keys - Keys to tag
+ * @returns A copy of the record with the keys' schemas tagged
+ */
+export function markSecretKeys<T extends Record<string, ZodTypeAny>>(schema: T, keys: readonly string[]): T {
+  if (keys.length === 0) {
+    return schema;
+  }
+
+  const marked: Record<string, ZodTypeAny> = { ...schema };
+  for (const key of keys) {
+    if (marked[key] && !isSecretSchema(marked[key])) {
+      marked[key] = secret(marked[key]);
+    }
+  }
+  return marked as T;
+}
@@ -192,12 +192,14 @@ export function validateWindowEnvIntegrity(envKey: string): boolean {
  * @param env - The environment object to wrap
  * @param serverKeys - Set of server-side environment variable keys
  * @param namespace - Optional namespace for rate limiting
+ * @param clientPrefix - Client prefix suggested in security errors
  * @returns Proxy object that prevents server variable access on client
  */
 export function createSecureEnvProxy<T extends Record<string, unknown>>(
   env: T,
   serverKeys: Set<string>,
   namespace?: string,
+  clientPrefix?: string,
 ): T {
   if (!isClient()) {
     // On the server, return the env object as-is (no proxy overhead)
@@ -238,7 +240,7 @@ export function createSecureEnvProxy<T extends Record<string, unknown>>(
         }
 
         if (serverKeys.has(prop)) {
-          throw new EnvSecurityError(prop);
+          throw new EnvSecurityError(prop, clientPrefix);
         }
         return target[prop as keyof T];
       }
@@ -7,6 +7,7 @@
 
 import type { ZodTypeAny } from 'zod';
 import type { RuntimeAdapter } from '../runtime/runtime-adapter';
+import type { ClientEnvOptions, ServerEnvOptions } from '../types';
 import { ServerRuntimeAdapter } from '../runtime/server-adapter';
 import { ClientRuntimeAdapter } from '../runtime/client-adapter';
 import { EdgeRuntimeAdapter } from '../runtime/edge-adapter';
@@ -28,13 +29,14 @@ export class MockRuntimeAdapter implements RuntimeAdapter {
     schema: TServer,
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
+    options?: ServerEnvOptions,
   ) {
     if (this.isServer && !this.isEdgeRuntime) {
-      return this.serverAdapter.validateServerEnv(schema, runtimeEnv, skipValidation);
+      return this.serverAdapter.validateServerEnv(schema, runtimeEnv, skipValidation, options);
     } else if (this.isEdgeRuntime) {
-      return this.edgeAdapter.validateServerEnv(schema, runtimeEnv, skipValidation);
+      return this.edgeAdapter.validateServerEnv(schema, runtimeEnv, skipValidation, options);
     } else {
-      return this.clientAdapter.validateServerEnv(schema, runtimeEnv, skipValidation);
+      return this.clientAdapter.validateServerEnv(schema, runtimeEnv, skipValidation, options);
     }
   }
 
@@ -43,13 +45,14 @@ export class MockRuntimeAdapter implements RuntimeAdapter {
     runtimeEnv: NodeJS.ProcessEnv,
     skipValidation: boolean,
     namespace?: string,
+    options?: ClientEnvOptions,
   ) {
     if (this.isClient) {
-      return this.clientAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace);
+      return this.clientAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace, options);
     } else if (this.isServer && !this.isEdgeRuntime) {
-      return this.serverAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace);
+      return this.serverAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace, options);
     } else {
-      return this.edgeAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace);
+      return this.edgeAdapter.validateClientEnv(schema, runtimeEnv, skipValidation, namespace, options);
     }
   }
 
@@ -33,13 +33,130 @@ export type ClientEnv<T extends Record<string, ZodTypeAny>> = ValidatedClientEnv
   readonly [K in keyof T]: InferZodType<T[K]>;
 }>;
 
+/**
+ * Type utility to create a record type from shared schema.
+ * Shared variables are readable on both the server and the client.
+ */
+export type SharedEnv<T extends Record<string, ZodTypeAny>> = {
+  readonly [K in keyof T]: InferZodType<T[K]>;
+};
+
+/**
+ * Reusable server and shared schemas merged into createEnv() through `extends`,
+ * such as the platform presets in `next-env-guard/presets`.
+ */
+export interface EnvPreset<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+> {
+  /**
+   * Name shown in error messages, e.g. "vercel".
+   */
+  name: string;
+  server?: TServer;
+  shared?: TShared;
+}
+
+/**
+ * Type utility to create a record type from a preset's schemas.
+ */
+export type PresetEnv<T> = T extends EnvPreset<infer TServer, infer TShared>
+  ? ServerEnv<TServer> & SharedEnv<TShared>
+  : unknown;
+
+/**
+ * A preset, or the object returned by another createEnv() call.
+ */
+export type EnvExtension = EnvPreset | object;
+
+/**
+ * Type utility for the variables one `extends` entry contributes.
+ * Env objects with a string index signature (from untyped schemas) are never treated as presets.
+ */
+export type ExtensionEnv<T> = T extends unknown
+  ? string extends keyof T
+    ? T
+    : T extends EnvPreset
+      ? PresetEnv<T>
+      : T
+  : never;
+
+/**
+ * Server variable names declared by a preset.
+ */
+type PresetServerKey<T> = T extends unknown
+  ? string extends keyof T
+    ? never
+    : T extends EnvPreset<infer TServer>
+      ? keyof TServer
+      : never
+  : never;
+
+/**
+ * Turns a union into an intersection, so every extended env contributes its keys.
+ */
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Type utility combining the envs of every preset and env object in `extends`.
+ */
+export type ExtendedEnv<TExtends extends readonly unknown[]> = UnionToIntersection<ExtensionEnv<TExtends[number]>>;
+
+/**
+ * Variable names of an env type, without the brand.
+ */
+export type EnvKey<T> = Exclude<Extract<keyof T, string>, '__brand'>;
+
+/**
+ * Second argument of createEnv()'s `refine` check.
+ */
+export interface EnvRefinementContext<TKey extends string = string> {
+  /**
+   * Reports a problem with a variable. Issues are thrown together as an
+   * EnvValidationError, listed under `key` like schema errors.
+   */
+  addIssue(issue: { key: TKey; message: string }): void;
+}
+
+/**
+ * Check over the whole parsed env, for rules between variables.
+ */
+export type EnvRefinement<TEnv = Record<string, unknown>> = (
+  env: Readonly<TEnv>,
+  ctx: EnvRefinementContext<EnvKey<TEnv>>,
+) => void;
+
+/**
+ * Client schema whose keys must start with the client prefix.
+ * Keys without it are typed as an error message, so the mistake shows up in the editor.
+ */
+export type PrefixedClientSchema<TPrefix extends string, TClient extends Record<string, ZodTypeAny>> = {
+  [K in keyof TClient]: K extends `${TPrefix}${string}`
+    ? TClient[K]
+    : `❌ "${K & string}" must be prefixed with "${TPrefix}"`;
+};
+
 /**
  * Configuration object for createEnv function.
  */
 export interface CreateEnvConfig<
   TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
   TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  TExtends extends readonly EnvExtension[] = [],
 > {
+  /**
+   * Presets and objects returned by other createEnv() calls whose schemas are
+   * merged into this one. A key declared by two of them must be in the same
+   * section, and the later schema wins; keys declared in this config override
+   * the inherited schema.
+   * @default []
+   */
+  extends?: TExtends;
+
   /**
    * Schema for server-side environment variables.
    * These variables are only accessible in server components, API routes, and server-side code.
@@ -48,9 +165,24 @@ export interface CreateEnvConfig<
 
   /**
    * Schema for client-side environment variables.
-   * These variables must be prefixed with "NEXT_PUBLIC_" and will be exposed to the browser.
+   * These variables must be prefixed with `clientPrefix` and will be exposed to the browser.
+   */
+  client?: PrefixedClientSchema<TPrefix, TClient>;
+
+  /**
+   * Prefix client variable names must start with, e.g. "VITE_", "PUBLIC_" or
+   * "EXPO_PUBLIC_" outside Next.js. Pass the same prefix to PublicEnvScript
+   * when it isn't given the createEnv() result.
+   * @default 'NEXT_PUBLIC_'
+   */
+  clientPrefix?: TPrefix;
+
+  /**
+   * Schema for variables readable on both the server and the client, such as
+   * NODE_ENV or VERCEL_ENV. They don't need the client prefix, but are
+   * injected into window.__ENV like client variables, so they must not hold secrets.
    */
-  client?: TClient;
+  shared?: TShared;
 
   /**
    * The runtime environment object (usually process.env).
@@ -76,6 +208,40 @@ export interface CreateEnvConfig<
    */
   namespace?: string;
 
+  /**
+   * Server variables whose values must never be printed, the same as
+   * wrapping their schemas with secret().
+   * @default []
+   */
+  secrets?: Array<Extract<keyof TServer | PresetServerKey<TExtends[number]>, string>>;
+
+  /**
+   * Checks rules between variables, such as one variable being required when
+   * another has a given value. Runs on the server with the parsed values; its
+   * issues are thrown in the same EnvValidationError as schema errors. A check
+   * that reads a variable which failed its schema stops there without adding
+   * issues. Checks of extended envs run as well.
+   * @default undefined
+   */
+  refine?: EnvRefinement<MergedEnv<TServer, TClient, TShared> & ExtendedEnv<TExtends>>;
+
+  /**
+   * Key for verifying the signature PublicEnvScript adds to window.__ENV.
+   * Must be the same value passed to PublicEnvScript, and available in the
+   * client bundle at build time (e.g. a NEXT_PUBLIC_ variable). Since the key
+   * is public, this detects accidental changes to the payload, not forgeries.
+   * @default undefined (no verification)
+   */
+  integrityKey?: string;
+
+  /**
+   * Reads a missing server variable `KEY` from the file named by `KEY_FILE`,
+   * e.g. `DATABASE_PASSWORD_FILE=/run/secrets/db`. Only used by the Node.js
+   * server adapter; ignored in the Edge Runtime and the browser.
+   * @default false
+   */
+  fileSecrets?: boolean | FileSecretsOptions;
+
   /**
    * Optional runtime adapter (for testing or custom environments).
    * If not provided, will be automatically detected.
@@ -85,13 +251,78 @@ export interface CreateEnvConfig<
 }
 
 /**
- * Merged environment object type combining server and client envs.
+ * Options for reading server variables from `KEY_FILE` files.
+ */
+export interface FileSecretsOptions {
+  /**
+   * Directories files may be read from. Files elsewhere, including symlinks
+   * that resolve elsewhere, are rejected.
+   * @default ['/run/secrets', '/var/run/secrets']
+   */
+  directories?: string[];
+}
+
+/**
+ * Options for reading server environment variables.
+ */
+export interface ServerEnvOptions {
+  /**
+   * Read missing variables from `KEY_FILE` files in these directories.
+   */
+  fileSecrets?: Required<FileSecretsOptions>;
+
+  /**
+   * Collect validation errors here instead of throwing. Invalid variables
+   * are left out of the result.
+   * @internal
+   */
+  errors?: EnvValidationIssue[];
+}
+
+/**
+ * Options for reading client environment variables.
+ */
+export interface ClientEnvOptions {
+  /**
+   * Key for verifying the window.__ENV signature.
+   */
+  integrityKey?: string;
+
+  /**
+   * Prefix of the process.env variables read when window.__ENV is missing.
+   * @default 'NEXT_PUBLIC_'
+   */
+  clientPrefix?: string;
+
+  /**
+   * Collect validation errors here instead of throwing, where variables are
+   * validated eagerly (on the server). Invalid variables are left out of the result.
+   * @internal
+   */
+  errors?: EnvValidationIssue[];
+}
+
+/**
+ * One entry of EnvValidationError's `errors`.
+ */
+export interface EnvValidationIssue {
+  key: string;
+  message: string;
+  received?: unknown;
+  secret?: boolean;
+  source?: EnvVariableSource;
+}
+
+/**
+ * Merged environment object type combining server, client and shared envs.
  */
 export type MergedEnv<
   TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
   TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, never>,
 > = (TServer extends Record<string, never> ? Record<string, never> : ServerEnv<TServer>) &
-  (TClient extends Record<string, never> ? Record<string, never> : ClientEnv<TClient>);
+  (TClient extends Record<string, never> ? Record<string, never> : ClientEnv<TClient>) &
+  (TShared extends Record<string, never> ? unknown : SharedEnv<TShared>);
 
 /**
  * Runtime environment detection utilities.
@@ -112,3 +343,40 @@ export interface RuntimeEnv {
    */
   isEdgeRuntime: boolean;
 }
+
+/**
+ * A location in a .env file that defines a variable.
+ */
+export interface EnvFileLocation {
+  filePath: string;
+
+  /**
+   * 1-based line of the variable name.
+   */
+  line: number;
+}
+
+/**
+ * Where the effective value of an environment variable came from.
+ */
+export interface EnvVariableSource {
+  /**
+   * The .env file that set the value, or 'process.env' if it was already set in the environment.
+   */
+  origin: 'file' | 'process.env';
+
+  /**
+   * File path, set when origin is 'file'.
+   */
+  filePath?: string;
+
+  /**
+   * 1-based line, set when origin is 'file'.
+   */
+  line?: number;
+
+  /**
+   * Lower-priority definitions that this value replaced, highest priority first.
+   */
+  overrides: EnvFileLocation[];
+}
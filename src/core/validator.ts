@@ -1,17 +1,30 @@
 import { z } from 'zod';
-import type { ZodTypeAny } from 'zod';
+import type { ZodIssue, ZodTypeAny } from 'zod';
 import { EnvValidationError, EnvClientPrefixError } from './errors';
 import { sanitizeEnvKey } from './security';
+import { isSecretSchema } from './secret';
+import { applyFileSecrets } from './file-secrets';
+import type { EnvSchemaMetadata } from './schema-metadata';
+import type { EnvRefinement, EnvRefinementContext, EnvValidationIssue } from './types';
 
 /**
- * Validates that all client-side environment variable names start with NEXT_PUBLIC_.
+ * Prefix client variable names must start with unless createEnv() is given `clientPrefix`.
+ */
+export const DEFAULT_CLIENT_PREFIX = 'NEXT_PUBLIC_';
+
+/**
+ * Validates that all client-side environment variable names start with the client prefix.
  * Also sanitizes keys to prevent injection attacks.
  * Optimized to fail fast on first invalid key.
  * 
  * @param clientSchema - Record of client-side environment variable schemas
- * @throws EnvClientPrefixError if any variable name doesn't start with NEXT_PUBLIC_
+ * @param clientPrefix - Required prefix (default: NEXT_PUBLIC_)
+ * @throws EnvClientPrefixError if any variable name doesn't start with the prefix
  */
-export function validateClientVariableNames(clientSchema: Record<string, ZodTypeAny>): void {
+export function validateClientVariableNames(
+  clientSchema: Record<string, ZodTypeAny>,
+  clientPrefix: string = DEFAULT_CLIENT_PREFIX,
+): void {
   // Use for...in for better performance than Object.keys() + iteration
   for (const key in clientSchema) {
     if (Object.prototype.hasOwnProperty.call(clientSchema, key)) {
@@ -21,36 +34,75 @@ export function validateClientVariableNames(clientSchema: Record<string, ZodType
       } catch (error) {
         throw new EnvClientPrefixError(
           error instanceof Error ? error.message : `Invalid key: ${key}`,
+          clientPrefix,
         );
       }
 
-      // Then check NEXT_PUBLIC_ prefix
-      if (!key.startsWith('NEXT_PUBLIC_')) {
-        throw new EnvClientPrefixError(key);
+      // Then check the client prefix
+      if (!key.startsWith(clientPrefix)) {
+        throw new EnvClientPrefixError(key, clientPrefix);
       }
     }
   }
 }
 
+/**
+ * Describes a Zod issue of a secret() variable from its code and expected value only.
+ * Zod's own messages may include the received value, so they are never used.
+ */
+function describeSecretIssue(issue: ZodIssue): string {
+  let expected: string | undefined;
+  switch (issue.code) {
+    case 'invalid_type':
+      if (issue.received === 'undefined') {
+        return `Required (code: ${issue.code})`;
+      }
+      expected = issue.expected;
+      break;
+    case 'invalid_literal':
+      expected = JSON.stringify(issue.expected);
+      break;
+    case 'invalid_enum_value':
+      expected = issue.options.map((option) => JSON.stringify(option)).join(' | ');
+      break;
+    case 'invalid_string':
+      expected = typeof issue.validation === 'string' ? issue.validation : undefined;
+      break;
+    case 'too_small':
+      expected = `${issue.type === 'string' ? 'length ' : ''}${issue.inclusive ? '>=' : '>'} ${issue.minimum}`;
+      break;
+    case 'too_big':
+      expected = `${issue.type === 'string' ? 'length ' : ''}${issue.inclusive ? '<=' : '<'} ${issue.maximum}`;
+      break;
+  }
+
+  return expected === undefined
+    ? `Invalid value (code: ${issue.code})`
+    : `Invalid value, expected ${expected} (code: ${issue.code})`;
+}
+
 /**
  * Validates environment variables against their Zod schemas.
  * Collects all errors and throws a comprehensive error message.
+ * Values of secret() variables are left out of the error.
  * Optimized to batch validations and minimize object creation.
  * 
  * @param schema - Record of Zod schemas to validate against
  * @param runtimeEnv - Runtime environment variables to validate
+ * @param collectErrors - Collect errors here instead of throwing; invalid variables are left out of the result
  * @returns Validated environment variables
- * @throws EnvValidationError if validation fails
+ * @throws EnvValidationError if validation fails and no collectErrors array is given
  */
 export function validateEnv<T extends Record<string, ZodTypeAny>>(
   schema: T,
   runtimeEnv: NodeJS.ProcessEnv,
+  collectErrors?: EnvValidationIssue[],
 ): Record<string, unknown> {
   const schemaKeys = Object.keys(schema);
   const schemaLength = schemaKeys.length;
   
   // Pre-allocate arrays with expected size for better performance
-  const errors: Array<{ key: string; message: string; received?: unknown }> = [];
+  const errors: EnvValidationIssue[] = collectErrors ?? [];
   const result: Record<string, unknown> = {};
 
   // Optimize: iterate over keys directly to avoid Object.entries overhead
@@ -58,6 +110,8 @@ export function validateEnv<T extends Record<string, ZodTypeAny>>(
     const key = schemaKeys[i];
     const zodSchema = schema[key];
     const value = runtimeEnv[key];
+    const secret = isSecretSchema(zodSchema);
+    const received = secret ? { secret: true } : { received: value };
 
     try {
       // Use safeParse to collect all errors instead of failing on first error
@@ -76,6 +130,11 @@ export function validateEnv<T extends Record<string, ZodTypeAny>>(
         
         for (let j = 0; j < errorCount; j++) {
           const err = zodError.errors[j];
+          if (secret) {
+            // Zod's text can echo the input (e.g. enum and literal issues)
+            messages[j] = describeSecretIssue(err);
+            continue;
+          }
           // Type assertion needed because TypeScript can't narrow the error type
           const errorMessage = (err as { message: string; code?: string }).message;
           const errorCode = (err as { code?: string }).code;
@@ -85,28 +144,118 @@ export function validateEnv<T extends Record<string, ZodTypeAny>>(
         errors.push({
           key,
           message: messages.join(', '),
-          received: value,
+          ...received,
         });
       }
     } catch (error) {
       // Handle unexpected errors during validation
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = secret ? 'value hidden' : error instanceof Error ? error.message : String(error);
       errors.push({
         key,
         message: `Unexpected validation error: ${errorMessage}`,
-        received: value,
+        ...received,
       });
     }
   }
 
   // If there are any errors, throw a comprehensive error
-  if (errors.length > 0) {
+  if (!collectErrors && errors.length > 0) {
     throw new EnvValidationError(errors);
   }
 
   return result;
 }
 
+/**
+ * Thrown by the env passed to a refine check when it reads a variable that
+ * failed its schema, to stop that check.
+ */
+class InvalidVariableAccess extends Error {}
+
+/**
+ * Runs createEnv()'s `refine` checks over the parsed env.
+ * A check that reads a variable listed in `invalidKeys` stops there, keeping
+ * the issues it already added, so it never reports problems caused by a
+ * value that failed its schema.
+ * 
+ * @param env - Parsed environment variables
+ * @param refinements - Checks to run, in order
+ * @param schema - Schemas of the variables, used to flag secret keys
+ * @param invalidKeys - Variables that failed their schema
+ * @returns The issues the checks added
+ */
+export function refineEnv(
+  env: Record<string, unknown>,
+  refinements: EnvRefinement[],
+  schema: Record<string, ZodTypeAny>,
+  invalidKeys: ReadonlySet<string> = new Set(),
+): EnvValidationIssue[] {
+  const errors: EnvValidationIssue[] = [];
+  const ctx: EnvRefinementContext = {
+    addIssue: ({ key, message }) => {
+      const zodSchema = schema[key];
+      errors.push(zodSchema && isSecretSchema(zodSchema) ? { key, message, secret: true } : { key, message });
+    },
+  };
+
+  // Pass a frozen copy so checks can't change the values createEnv() returns
+  const checkedEnv = new Proxy(Object.freeze({ ...env }), {
+    get(target, key, receiver) {
+      if (typeof key === 'string' && invalidKeys.has(key)) {
+        throw new InvalidVariableAccess(key);
+      }
+      return Reflect.get(target, key, receiver);
+    },
+  });
+  for (const refine of refinements) {
+    try {
+      refine(checkedEnv, ctx);
+    } catch (error) {
+      if (!(error instanceof InvalidVariableAccess)) {
+        throw error;
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validates an env the way createEnv() does on the server: KEY_FILE variables
+ * are read if `fileSecrets` is set, every variable is validated and `refine`
+ * checks run over the ones that parsed. Used where there is no env object to
+ * create, such as watchEnv() reloads and the Next.js config plugin.
+ * 
+ * @param metadata - Schemas and options, as recorded by createEnv()
+ * @param runtimeEnv - Environment variables to validate
+ * @returns Validated environment variables
+ * @throws {EnvValidationError} With the schema errors and refine issues together
+ * @throws {EnvFileSecretError} If a KEY_FILE variable can't be read
+ */
+export function validateEnvSchema(
+  metadata: EnvSchemaMetadata,
+  runtimeEnv: NodeJS.ProcessEnv,
+): Record<string, unknown> {
+  const server = metadata.fileSecrets
+    ? applyFileSecrets(metadata.server, runtimeEnv, metadata.fileSecrets)
+    : { schema: metadata.server, runtimeEnv };
+  const errors: EnvValidationIssue[] = [];
+  const values = {
+    ...validateEnv(server.schema, server.runtimeEnv, errors),
+    ...validateEnv({ ...metadata.shared, ...metadata.client }, runtimeEnv, errors),
+  };
+  if (metadata.refinements?.length) {
+    const invalidKeys = new Set(errors.map((error) => error.key));
+    const schema = { ...server.schema, ...metadata.shared, ...metadata.client };
+    errors.push(...refineEnv(values, metadata.refinements, schema, invalidKeys));
+  }
+  if (errors.length > 0) {
+    throw new EnvValidationError(errors);
+  }
+
+  return values;
+}
+
 /**
  * Creates a Zod object schema from a record of Zod schemas.
  * 
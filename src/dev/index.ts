@@ -0,0 +1,8 @@
+/**
+ * next-env-guard/dev
+ *
+ * Development helpers. Server-only: imports Node's fs module.
+ */
+
+export { watchEnv } from './watch-env';
+export type { WatchEnvOptions, EnvReloadResult, EnvWatcher } from './watch-env';
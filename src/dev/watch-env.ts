@@ -0,0 +1,223 @@
+/**
+ * Development-only reloading of environment variables.
+ * Watches the .env files loadEnvFiles() reads and updates the object returned
+ * by createEnv() in place when they change, so `next dev` needn't be restarted.
+ */
+
+import * as fs from 'fs';
+import { getEnvSchema } from '../core/schema-metadata';
+import { validateEnvSchema } from '../core/validator';
+import { observabilityHooks } from '../core/hooks/observability';
+import { getEnvFileNames, loadEnvFiles } from '../utils/env-loader';
+
+/**
+ * Options for watchEnv.
+ */
+export interface WatchEnvOptions {
+  /**
+   * Directory containing the .env files.
+   * @default process.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * The current environment. Nothing is watched unless this is `development`.
+   * @default process.env.NODE_ENV
+   */
+  nodeEnv?: string;
+
+  /**
+   * The environment the process started with. Variables that match a value
+   * in the .env files at startup are treated as loaded from those files and
+   * follow them; the rest take precedence, as in loadEnv().
+   * @default the runtimeEnv passed to createEnv()
+   */
+  runtimeEnv?: NodeJS.ProcessEnv;
+
+  /**
+   * Milliseconds to wait after a change before reloading, so editors that
+   * write a file in several steps trigger one reload.
+   * @default 100
+   */
+  debounce?: number;
+
+  /**
+   * Called after every reload attempt.
+   */
+  onReload?: (result: EnvReloadResult) => void;
+}
+
+/**
+ * Variables that changed in a reload, by name.
+ */
+export interface EnvReloadResult {
+  added: string[];
+  removed: string[];
+  changed: string[];
+
+  /**
+   * Why the reload failed. The previous values are kept.
+   */
+  error?: Error;
+}
+
+/**
+ * Handle returned by watchEnv.
+ */
+export interface EnvWatcher {
+  /**
+   * Reloads the .env files now.
+   */
+  reload(): EnvReloadResult;
+
+  /**
+   * Stops watching.
+   */
+  close(): void;
+}
+
+/**
+ * Compares validated values, including objects produced by transforms.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return Object.is(a, b) || (typeof a === 'object' && JSON.stringify(a) === JSON.stringify(b));
+}
+
+/**
+ * Watches the .env files and reloads the env object returned by createEnv()
+ * when they change. Each reload validates the files again, `refine` checks
+ * included; on success the values are swapped in place and the changed keys are logged through
+ * observabilityHooks.logInfo(), and on failure the error is logged and the
+ * previous values are kept. Values createEnvAsync() resolved through secret
+ * providers are kept as resolved. Does nothing outside development or in the browser.
+ *
+ * Call it from server-only code, such as `register()` in instrumentation.ts.
+ *
+ * @param env - The object returned by createEnv()
+ * @param options - Directory, environment and debounce options
+ * @returns Watcher handle
+ * @throws {TypeError} If env wasn't returned by createEnv()
+ *
+ * @example
+ * ```typescript
+ * // instrumentation.ts
+ * export async function register() {
+ *   if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.NODE_ENV === 'development') {
+ *     const { watchEnv } = await import('next-env-guard/dev');
+ *     const { env } = await import('./env');
+ *     watchEnv(env);
+ *   }
+ * }
+ * ```
+ */
+export function watchEnv(env: object, options: WatchEnvOptions = {}): EnvWatcher {
+  const {
+    cwd = process.cwd(),
+    nodeEnv = process.env.NODE_ENV,
+    debounce = 100,
+    onReload,
+  } = options;
+
+  const metadata = getEnvSchema(env);
+  if (!metadata) {
+    throw new TypeError('watchEnv() expects the object returned by createEnv()');
+  }
+  const runtimeEnv = options.runtimeEnv ?? metadata.runtimeEnv ?? process.env;
+
+  if (nodeEnv !== 'development' || typeof window !== 'undefined') {
+    return {
+      reload: () => ({ added: [], removed: [], changed: [] }),
+      close: () => undefined,
+    };
+  }
+
+  // Leave out variables the process got from the .env files at startup, so edits to them apply
+  const startupFileEnv = loadEnvFiles({ cwd, nodeEnv, processEnv: runtimeEnv });
+  const baseEnv = {} as NodeJS.ProcessEnv;
+  for (const [key, value] of Object.entries(runtimeEnv)) {
+    if (value !== undefined && startupFileEnv[key] !== value) {
+      baseEnv[key] = value;
+    }
+  }
+
+  const keys = [...Object.keys(metadata.server), ...Object.keys(metadata.client), ...Object.keys(metadata.shared)];
+  const target = env as Record<string, unknown>;
+
+  const reload = (): EnvReloadResult => {
+    const result: EnvReloadResult = { added: [], removed: [], changed: [] };
+
+    try {
+      const mergedEnv = { ...loadEnvFiles({ cwd, nodeEnv, processEnv: baseEnv }), ...baseEnv };
+      // Keep the values createEnvAsync() resolved through secret providers
+      for (const key of metadata.resolvedKeys ?? []) {
+        mergedEnv[key] = metadata.runtimeEnv?.[key];
+      }
+      // Reads KEY_FILE variables and runs `refine` the same way createEnv() did
+      const values = validateEnvSchema(metadata, mergedEnv);
+
+      for (const key of keys) {
+        const previous = target[key];
+        const next = values[key];
+        if (isSameValue(previous, next)) {
+          continue;
+        }
+
+        if (previous === undefined) {
+          result.added.push(key);
+        } else if (next === undefined) {
+          result.removed.push(key);
+        } else {
+          result.changed.push(key);
+        }
+
+        if (key in values) {
+          target[key] = next;
+        } else {
+          delete target[key];
+        }
+      }
+
+      const total = result.added.length + result.removed.length + result.changed.length;
+      if (total > 0) {
+        const summary = [
+          ...result.added.map((key) => `+${key}`),
+          ...result.removed.map((key) => `-${key}`),
+          ...result.changed.map((key) => `~${key}`),
+        ].join(', ');
+        observabilityHooks.logInfo(`🔄 Reloaded environment variables: ${summary}`, {
+          added: result.added,
+          removed: result.removed,
+          changed: result.changed,
+        });
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error : new Error(String(error));
+      observabilityHooks.logError('❌ Could not reload environment variables, keeping the previous values', result.error);
+    }
+
+    onReload?.(result);
+    return result;
+  };
+
+  // Watch the directory, since editors often replace files and .env files may not exist yet
+  const fileNames = new Set(getEnvFileNames({ nodeEnv, processEnv: baseEnv }));
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = fs.watch(cwd, (_event, fileName) => {
+    if (!fileName || !fileNames.has(fileName.toString())) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(reload, debounce);
+    timer.unref?.();
+  });
+  // Don't keep the process alive just for the watcher
+  watcher.unref();
+
+  return {
+    reload,
+    close: () => {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
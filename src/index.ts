@@ -5,21 +5,49 @@
  */
 
 export { createEnv } from './core/create-env';
+export { createEnvAsync } from './core/create-env-async';
+export type { CreateEnvAsyncConfig } from './core/create-env-async';
+export { clearSecretProviderCache } from './core/secret-provider';
+export type { SecretProvider, SecretRequest } from './core/secret-provider';
+export { secret, isSecretSchema } from './core/secret';
 export type {
   CreateEnvConfig,
   ServerEnv,
   ClientEnv,
+  SharedEnv,
   MergedEnv,
+  EnvPreset,
+  EnvExtension,
+  EnvRefinement,
+  EnvRefinementContext,
+  PresetEnv,
+  ExtendedEnv,
   RuntimeEnv,
+  ClientEnvOptions,
+  FileSecretsOptions,
+  EnvFileLocation,
+  EnvValidationIssue,
+  EnvVariableSource,
 } from './core/types';
 export {
   EnvValidationError,
   EnvSecurityError,
   EnvClientPrefixError,
   EnvNotInitializedError,
+  EnvParseError,
+  EnvExpansionError,
+  EnvSecretLeakError,
+  EnvIntegrityError,
+  EnvSecretProviderError,
+  EnvFileSecretError,
+  EnvDecryptionError,
 } from './core/errors';
 export { detectRuntime, isServer, isClient } from './core/detector';
 export { setupObservability } from './core/hooks';
+export { getEnvSchema } from './core/schema-metadata';
+export type { EnvSchemaMetadata } from './core/schema-metadata';
+export { generateEnvTypes } from './utils/type-generator';
+export type { EnvTypesSource, GenerateEnvTypesOptions } from './utils/type-generator';
 export type {
   EnvLogger,
   EnvTelemetry,
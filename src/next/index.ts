@@ -0,0 +1,13 @@
+/**
+ * next-env-guard/next
+ *
+ * Next.js config integration for build-time environment validation.
+ */
+
+export { withNextEnvGuard } from './with-next-env-guard';
+export type {
+  NextEnvGuardPluginOptions,
+  NextEnvGuardSchema,
+  NextConfigFunction,
+  NextConfigContext,
+} from './with-next-env-guard';
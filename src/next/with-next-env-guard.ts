@@ -0,0 +1,208 @@
+/**
+ * Next.js config plugin that validates environment variables at build time.
+ * Runs the same validation as createEnv() while `next build` or `next dev` loads
+ * next.config, so a broken deploy fails before any page renders.
+ */
+
+import type { ZodTypeAny } from 'zod';
+import type { NextConfig } from 'next';
+import { PHASE_DEVELOPMENT_SERVER, PHASE_PRODUCTION_BUILD } from 'next/constants';
+import { validateClientVariableNames, validateEnvSchema } from '../core/validator';
+import { EnvValidationError } from '../core/errors';
+import { configManager } from '../core/config/config-manager';
+import { getEnvSchema } from '../core/schema-metadata';
+import type { EnvSchemaMetadata } from '../core/schema-metadata';
+import { markSecretKeys } from '../core/secret';
+import type { CreateEnvConfig, EnvExtension } from '../core/types';
+
+/**
+ * Context object Next.js passes to a function-style config.
+ */
+export interface NextConfigContext {
+  defaultConfig: NextConfig;
+}
+
+/**
+ * A function-style Next.js config, as accepted in next.config.js.
+ */
+export type NextConfigFunction = (
+  phase: string,
+  context: NextConfigContext,
+) => NextConfig | Promise<NextConfig>;
+
+/**
+ * The createEnv() config to validate, without the options that only apply at runtime.
+ */
+export type NextEnvGuardSchema<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  TExtends extends readonly EnvExtension[] = [],
+> = Omit<
+  CreateEnvConfig<TServer, TClient, TShared, TPrefix, TExtends>,
+  'runtimeEnv' | 'skipValidation' | 'skipTypeCheck' | 'runtimeAdapter'
+>;
+
+/**
+ * Options for withNextEnvGuard.
+ */
+export interface NextEnvGuardPluginOptions<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  TExtends extends readonly EnvExtension[] = [],
+> {
+  /**
+   * The config passed to createEnv(): schemas, `extends`, `secrets`,
+   * `clientPrefix`, `refine` and `fileSecrets` are applied the same way, so
+   * values of secret variables are left out of the build output.
+   * Required unless `env` is given.
+   */
+  schema?: NextEnvGuardSchema<TServer, TClient, TShared, TPrefix, TExtends>;
+
+  /**
+   * The object returned by createEnv(), validated with the schemas and options
+   * it was created with. Used instead of `schema`.
+   */
+  env?: object;
+
+  /**
+   * The environment to validate against.
+   * Next.js loads .env files before evaluating next.config, so process.env is already populated.
+   * @default process.env
+   */
+  runtimeEnv?: NodeJS.ProcessEnv;
+
+  /**
+   * Whether to skip validation entirely (e.g. for Docker builds without secrets).
+   * @default false
+   */
+  skipValidation?: boolean;
+
+  /**
+   * Next.js phases during which validation runs.
+   * @default [PHASE_PRODUCTION_BUILD, PHASE_DEVELOPMENT_SERVER]
+   */
+  phases?: string[];
+}
+
+/**
+ * Gets the schemas and options of a createEnv() result, or normalizes a
+ * createEnv() config the way createEnv() does.
+ *
+ * @throws {TypeError} If `env` wasn't returned by createEnv(), or neither option is given
+ */
+function getSchemaMetadata(
+  options: Pick<NextEnvGuardPluginOptions, 'schema' | 'env'>,
+  runtimeEnv: NodeJS.ProcessEnv,
+): EnvSchemaMetadata {
+  if (options.env) {
+    const metadata = getEnvSchema(options.env);
+    if (!metadata) {
+      throw new TypeError('withNextEnvGuard() expects env to be the object returned by createEnv()');
+    }
+    return metadata;
+  }
+  if (!options.schema) {
+    throw new TypeError('withNextEnvGuard() needs a schema or env option');
+  }
+
+  const config = configManager.validateConfig({ ...options.schema, runtimeEnv });
+  return {
+    server: markSecretKeys(config.server, config.secrets),
+    client: config.client,
+    shared: config.shared,
+    namespace: config.namespace,
+    clientPrefix: config.clientPrefix,
+    refinements: config.refinements,
+    fileSecrets: config.fileSecrets,
+  };
+}
+
+/**
+ * Validates the schema against the runtime environment.
+ * Server, client and shared variables are validated in a single pass, `refine`
+ * issues included, so the build output shows the complete list of problems at once.
+ *
+ * @throws {EnvClientPrefixError} If any client variable doesn't start with the client prefix
+ * @throws {EnvValidationError} If validation fails
+ */
+function validateSchema(
+  options: Pick<NextEnvGuardPluginOptions, 'schema' | 'env'>,
+  runtimeEnv: NodeJS.ProcessEnv,
+): void {
+  const metadata = getSchemaMetadata(options, runtimeEnv);
+
+  if (Object.keys(metadata.client).length > 0) {
+    validateClientVariableNames(metadata.client, metadata.clientPrefix);
+  }
+
+  validateEnvSchema(metadata, runtimeEnv);
+}
+
+/**
+ * Wraps a Next.js config so environment variables are validated when
+ * `next build` or `next dev` starts.
+ *
+ * Validation errors are printed to the build output and rethrown, which
+ * aborts the build (or the dev server) before any page is rendered.
+ *
+ * @param nextConfig - The Next.js config object or config function to wrap
+ * @param options - Plugin options with the schema to validate
+ * @returns A function-style Next.js config
+ *
+ * @example
+ * ```js
+ * // next.config.mjs
+ * import { withNextEnvGuard } from 'next-env-guard/next';
+ * import { z } from 'zod';
+ *
+ * export default withNextEnvGuard(
+ *   { reactStrictMode: true },
+ *   {
+ *     schema: {
+ *       server: { DATABASE_URL: z.string().url() },
+ *       client: { NEXT_PUBLIC_API_URL: z.string().url() },
+ *     },
+ *   },
+ * );
+ * ```
+ *
+ * @public
+ */
+export function withNextEnvGuard<
+  TServer extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TClient extends Record<string, ZodTypeAny> = Record<string, ZodTypeAny>,
+  TShared extends Record<string, ZodTypeAny> = Record<string, never>,
+  TPrefix extends string = 'NEXT_PUBLIC_',
+  const TExtends extends readonly EnvExtension[] = [],
+>(
+  nextConfig: NextConfig | NextConfigFunction = {},
+  options: NextEnvGuardPluginOptions<TServer, TClient, TShared, TPrefix, TExtends>,
+): NextConfigFunction {
+  const {
+    schema,
+    env,
+    runtimeEnv = process.env,
+    skipValidation = false,
+    phases = [PHASE_PRODUCTION_BUILD, PHASE_DEVELOPMENT_SERVER],
+  } = options;
+
+  return async (phase, context) => {
+    if (!skipValidation && phases.includes(phase)) {
+      try {
+        // `refine` is typed for this config's env, which the default type parameters don't describe
+        validateSchema({ schema, env } as Pick<NextEnvGuardPluginOptions, 'schema' | 'env'>, runtimeEnv);
+      } catch (error) {
+        if (error instanceof EnvValidationError) {
+          console.error(`\n[next-env-guard] Environment validation failed (${phase}).\n\n${error.message}`);
+        }
+        throw error;
+      }
+    }
+
+    return typeof nextConfig === 'function' ? nextConfig(phase, context) : nextConfig;
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * next-env-guard/presets
+ *
+ * Schemas for hosting platform system variables, for createEnv()'s `extends` option.
+ */
+
+import { fly, netlify, railway, render, vercel } from './platforms';
+
+/**
+ * Every platform preset, for `extends: [presets.vercel()]`.
+ */
+export const presets = { vercel, netlify, railway, render, fly };
+
+export { fly, netlify, railway, render, vercel } from './platforms';
+export type { EnvPreset } from '../core/types';
@@ -0,0 +1,188 @@
+/**
+ * Schemas for the system variables hosting platforms set on every deployment.
+ * Every variable is optional, so the same env module works locally and on other platforms.
+ * Each function returns the same object every time.
+ * Environment names and public URLs are shared; the rest stay on the server.
+ */
+
+import { z } from 'zod';
+import { secret } from '../core/secret';
+import type { EnvPreset } from '../core/types';
+
+/**
+ * A "1"/"true" or "0"/"false" flag, parsed to a boolean.
+ */
+function flag() {
+  return z
+    .enum(['1', 'true', '0', 'false'])
+    .transform((value) => value === '1' || value === 'true')
+    .optional();
+}
+
+/**
+ * Optional string variable. An empty value counts as unset, since platforms set
+ * some variables to "" when they don't apply (e.g. VERCEL_GIT_PULL_REQUEST_ID
+ * on deployments that aren't tied to a pull request).
+ */
+function text() {
+  return z.preprocess((value) => (value === '' ? undefined : value), z.string().min(1).optional());
+}
+
+const VERCEL_PRESET = {
+  name: 'vercel',
+  server: {
+    VERCEL_REGION: text(),
+    VERCEL_DEPLOYMENT_ID: text(),
+    VERCEL_GIT_PROVIDER: text(),
+    VERCEL_GIT_REPO_SLUG: text(),
+    VERCEL_GIT_REPO_OWNER: text(),
+    VERCEL_GIT_COMMIT_REF: text(),
+    VERCEL_GIT_COMMIT_SHA: text(),
+    VERCEL_GIT_COMMIT_MESSAGE: z.string().optional(),
+    VERCEL_GIT_COMMIT_AUTHOR_LOGIN: text(),
+    VERCEL_GIT_PULL_REQUEST_ID: text(),
+    VERCEL_OIDC_TOKEN: secret(z.string().min(1).optional()),
+  },
+  shared: {
+    VERCEL: flag(),
+    VERCEL_ENV: z.enum(['production', 'preview', 'development']).optional(),
+    // Hostnames without a protocol, e.g. my-app-abc123.vercel.app
+    VERCEL_URL: text(),
+    VERCEL_BRANCH_URL: text(),
+    VERCEL_PROJECT_PRODUCTION_URL: text(),
+  },
+} satisfies EnvPreset;
+
+/**
+ * Vercel system environment variables.
+ *
+ * @see https://vercel.com/docs/projects/environment-variables/system-environment-variables
+ */
+export function vercel() {
+  return VERCEL_PRESET;
+}
+
+const NETLIFY_PRESET = {
+  name: 'netlify',
+  server: {
+    BUILD_ID: text(),
+    DEPLOY_ID: text(),
+    SITE_ID: text(),
+    SITE_NAME: text(),
+    BRANCH: text(),
+    HEAD: text(),
+    COMMIT_REF: text(),
+    REPOSITORY_URL: text(),
+    PULL_REQUEST: flag(),
+    REVIEW_ID: text(),
+  },
+  shared: {
+    NETLIFY: flag(),
+    CONTEXT: z.enum(['production', 'deploy-preview', 'branch-deploy', 'dev']).optional(),
+    URL: z.string().url().optional(),
+    DEPLOY_URL: z.string().url().optional(),
+    DEPLOY_PRIME_URL: z.string().url().optional(),
+  },
+} satisfies EnvPreset;
+
+/**
+ * Netlify build and runtime environment variables.
+ *
+ * @see https://docs.netlify.com/configure-builds/environment-variables/
+ */
+export function netlify() {
+  return NETLIFY_PRESET;
+}
+
+const RAILWAY_PRESET = {
+  name: 'railway',
+  server: {
+    RAILWAY_PROJECT_ID: text(),
+    RAILWAY_PROJECT_NAME: text(),
+    RAILWAY_ENVIRONMENT_ID: text(),
+    RAILWAY_SERVICE_ID: text(),
+    RAILWAY_SERVICE_NAME: text(),
+    RAILWAY_DEPLOYMENT_ID: text(),
+    RAILWAY_REPLICA_ID: text(),
+    RAILWAY_PRIVATE_DOMAIN: text(),
+    RAILWAY_GIT_COMMIT_SHA: text(),
+    RAILWAY_GIT_BRANCH: text(),
+    RAILWAY_GIT_REPO_NAME: text(),
+    RAILWAY_GIT_REPO_OWNER: text(),
+    RAILWAY_GIT_AUTHOR: text(),
+    RAILWAY_GIT_COMMIT_MESSAGE: z.string().optional(),
+  },
+  shared: {
+    RAILWAY_ENVIRONMENT: text(),
+    RAILWAY_ENVIRONMENT_NAME: text(),
+    // Hostname without a protocol, e.g. my-app.up.railway.app
+    RAILWAY_PUBLIC_DOMAIN: text(),
+  },
+} satisfies EnvPreset;
+
+/**
+ * Railway service variables.
+ *
+ * @see https://docs.railway.com/reference/variables#railway-provided-variables
+ */
+export function railway() {
+  return RAILWAY_PRESET;
+}
+
+const RENDER_PRESET = {
+  name: 'render',
+  server: {
+    RENDER_SERVICE_ID: text(),
+    RENDER_SERVICE_NAME: text(),
+    RENDER_SERVICE_TYPE: z.enum(['web', 'pserv', 'cron', 'worker', 'static']).optional(),
+    RENDER_INSTANCE_ID: text(),
+    RENDER_GIT_COMMIT: text(),
+    RENDER_GIT_BRANCH: text(),
+    RENDER_GIT_REPO_SLUG: text(),
+    RENDER_DISCOVERY_SERVICE: text(),
+    RENDER_CPU_COUNT: z.coerce.number().int().positive().optional(),
+  },
+  shared: {
+    RENDER: flag(),
+    IS_PULL_REQUEST: flag(),
+    RENDER_EXTERNAL_URL: z.string().url().optional(),
+    RENDER_EXTERNAL_HOSTNAME: text(),
+  },
+} satisfies EnvPreset;
+
+/**
+ * Render service environment variables.
+ *
+ * @see https://render.com/docs/environment-variables#all-runtimes
+ */
+export function render() {
+  return RENDER_PRESET;
+}
+
+const FLY_PRESET = {
+  name: 'fly',
+  server: {
+    FLY_MACHINE_ID: text(),
+    FLY_MACHINE_VERSION: text(),
+    FLY_ALLOC_ID: text(),
+    FLY_REGION: text(),
+    PRIMARY_REGION: text(),
+    FLY_PUBLIC_IP: text(),
+    FLY_PRIVATE_IP: text(),
+    FLY_IMAGE_REF: text(),
+    FLY_PROCESS_GROUP: text(),
+    FLY_VM_MEMORY_MB: z.coerce.number().int().positive().optional(),
+  },
+  shared: {
+    FLY_APP_NAME: text(),
+  },
+} satisfies EnvPreset;
+
+/**
+ * Fly.io Machine runtime environment variables.
+ *
+ * @see https://fly.io/docs/machines/runtime-environment/
+ */
+export function fly() {
+  return FLY_PRESET;
+}
@@ -0,0 +1,91 @@
+/**
+ * Secret provider that reads files mounted by Docker or Kubernetes,
+ * e.g. `/run/secrets/db_password`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SecretProvider } from '../core/secret-provider';
+
+/**
+ * Options for fileSecretProvider.
+ */
+export interface FileSecretProviderOptions {
+  /**
+   * Directory holding one file per secret.
+   * @default '/run/secrets'
+   */
+  directory?: string;
+
+  /**
+   * Provider name used in `secretRef://<name>/...` URIs.
+   * @default 'file'
+   */
+  name?: string;
+
+  /**
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Milliseconds to cache values for.
+   * @default 0
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * Reads a secret file, or returns undefined if it doesn't exist.
+ * One trailing newline is removed, since editors and `echo` add one.
+ */
+async function readSecretFile(filePath: string): Promise<string | undefined> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf-8');
+    return content.replace(/\r?\n$/, '');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Creates a provider that reads secrets from files in a directory.
+ * A missing variable `DB_PASSWORD` is read from `DB_PASSWORD`, then `db_password`;
+ * `secretRef://file/db/password` reads `db/password`.
+ *
+ * @param options - Directory, name, priority and caching
+ * @returns The secret provider
+ *
+ * @example
+ * ```typescript
+ * providers: [fileSecretProvider({ directory: '/run/secrets' })]
+ * ```
+ */
+export function fileSecretProvider(options: FileSecretProviderOptions = {}): SecretProvider {
+  const directory = path.resolve(options.directory ?? '/run/secrets');
+
+  return {
+    name: options.name ?? 'file',
+    priority: options.priority,
+    cacheTtl: options.cacheTtl,
+    async resolve({ key, ref }) {
+      if (ref !== undefined) {
+        // Keep references inside the secrets directory
+        const filePath = path.resolve(directory, ref);
+        if (!filePath.startsWith(directory + path.sep)) {
+          throw new Error(`"${ref}" is outside ${directory}`);
+        }
+        return readSecretFile(filePath);
+      }
+
+      const value = await readSecretFile(path.join(directory, key));
+      if (value !== undefined || key === key.toLowerCase()) {
+        return value;
+      }
+      return readSecretFile(path.join(directory, key.toLowerCase()));
+    },
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Generic secret provider that fetches values over HTTP, for stores with a
+ * REST API or a small internal secrets service.
+ */
+
+import type { SecretProvider, SecretRequest } from '../core/secret-provider';
+
+/**
+ * Options for httpSecretProvider.
+ */
+export interface HttpSecretProviderOptions {
+  /**
+   * URL to fetch. A string has `{key}` replaced with the URL-encoded reference
+   * path (or the variable name when resolving a missing variable).
+   */
+  url: string | ((request: SecretRequest) => string);
+
+  /**
+   * Provider name used in `secretRef://<name>/...` URIs.
+   * @default 'http'
+   */
+  name?: string;
+
+  /**
+   * Request headers, e.g. an Authorization token.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Reads the secret from a successful response. By default, JSON responses
+   * are read from their `value` property and other responses as text.
+   */
+  parse?: (response: Response) => Promise<string | undefined>;
+
+  /**
+   * @default 0
+   */
+  priority?: number;
+
+  /**
+   * Milliseconds before the request fails.
+   */
+  timeout?: number;
+
+  /**
+   * Milliseconds to cache values for.
+   * @default 0
+   */
+  cacheTtl?: number;
+}
+
+/**
+ * Reads `{ "value": "..." }` JSON or a plain-text body.
+ */
+async function parseSecretResponse(response: Response): Promise<string | undefined> {
+  if (response.headers.get('content-type')?.includes('application/json')) {
+    const body = (await response.json()) as { value?: unknown };
+    return typeof body.value === 'string' ? body.value : undefined;
+  }
+  return response.text();
+}
+
+/**
+ * Creates a provider that fetches secrets over HTTP.
+ * 404 responses mean the secret doesn't exist; other errors fail the lookup.
+ *
+ * @param options - URL, headers, response parsing, priority, timeout and caching
+ * @returns The secret provider
+ *
+ * @example
+ * ```typescript
+ * providers: [
+ *   httpSecretProvider({
+ *     url: 'https://secrets.internal/v1/{key}',
+ *     headers: { Authorization: `Bearer ${process.env.SECRETS_TOKEN}` },
+ *   }),
+ * ]
+ * ```
+ */
+export function httpSecretProvider(options: HttpSecretProviderOptions): SecretProvider {
+  const { url, headers, parse = parseSecretResponse } = options;
+
+  return {
+    name: options.name ?? 'http',
+    priority: options.priority,
+    timeout: options.timeout,
+    cacheTtl: options.cacheTtl,
+    async resolve(request) {
+      const target = typeof url === 'function'
+        ? url(request)
+        : url.replace('{key}', encodeURIComponent(request.ref ?? request.key));
+
+      const response = await fetch(target, { headers, signal: request.signal });
+      if (response.status === 404) {
+        return undefined;
+      }
+      if (!response.ok) {
+        throw new Error(`${target} responded ${response.status} ${response.statusText}`);
+      }
+      return parse(response);
+    },
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * next-env-guard/providers
+ *
+ * Secret providers for createEnvAsync().
+ */
+
+export { fileSecretProvider } from './file-provider';
+export type { FileSecretProviderOptions } from './file-provider';
+export { httpSecretProvider } from './http-provider';
+export type { HttpSecretProviderOptions } from './http-provider';
+export type { SecretProvider, SecretRequest } from '../core/secret-provider';
@@ -0,0 +1,8 @@
+/**
+ * next-env-guard/route
+ *
+ * Route handler that serves client environment variables as JSON.
+ */
+
+export { createPublicEnvRoute } from './public-env-route';
+export type { PublicEnvRouteOptions, PublicEnvPayload } from './public-env-route';
@@ -0,0 +1,117 @@
+/**
+ * Route handler that serves the client environment as JSON.
+ * Lets static or CDN-cached HTML pick up per-deployment values at runtime,
+ * so the same build can run in every environment.
+ */
+
+import type { ZodTypeAny } from 'zod';
+import type { PublicEnvPayload } from '../core/public-env-loader';
+import { collectPublicEnv } from '../script/public-env';
+import { generateEnvPayload } from '../script/generator';
+import type { SecretGuardOptions } from '../script/secret-guard';
+import { sha256Base64 } from '../utils/sha256';
+
+/**
+ * Options for createPublicEnvRoute.
+ */
+export interface PublicEnvRouteOptions {
+  /**
+   * Client schema, or the object returned by createEnv().
+   * When set, only declared keys are served, as parsed values.
+   */
+  schema?: Record<string, ZodTypeAny> | object;
+
+  /**
+   * Values to read from. Defaults to process.env at request time.
+   */
+  env?: Record<string, unknown>;
+
+  /**
+   * Namespace used in createEnv(). Defaults to the createEnv() namespace when
+   * `schema` is an env object.
+   */
+  namespace?: string;
+
+  /**
+   * Prefix of the client variables served without a schema. Defaults to the
+   * prefix registered by createEnv() for the namespace, or NEXT_PUBLIC_.
+   */
+  clientPrefix?: string;
+
+  /**
+   * Cache-Control header. The default lets caches store the response but
+   * revalidate it with the ETag on every request.
+   * @default 'public, max-age=0, must-revalidate'
+   */
+  cacheControl?: string;
+
+  /**
+   * Secret detection run over the values, or `false` to disable it.
+   */
+  secretGuard?: SecretGuardOptions | false;
+
+  /**
+   * Key for signing the payload, verified by createEnv() with the same key.
+   */
+  integrityKey?: string;
+}
+
+/**
+ * Checks whether an If-None-Match header matches an ETag.
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * Creates a GET route handler that serves the validated client environment
+ * as `{ env, parsed }` JSON with ETag and Cache-Control headers.
+ * Load it in the browser with fetchPublicEnv().
+ *
+ * @param options - Schema, values, caching and secret guard options
+ * @returns Route handler for the App Router (`export const GET = ...`)
+ *
+ * @example
+ * ```typescript
+ * // app/api/env/route.ts
+ * import { createPublicEnvRoute } from 'next-env-guard/route';
+ * import { env } from '../../../env.mjs';
+ *
+ * export const dynamic = 'force-dynamic';
+ * export const GET = createPublicEnvRoute({ schema: env });
+ * ```
+ */
+export function createPublicEnvRoute(options: PublicEnvRouteOptions = {}): (request: Request) => Promise<Response> {
+  const { cacheControl = 'public, max-age=0, must-revalidate', secretGuard, integrityKey } = options;
+
+  return async (request: Request): Promise<Response> => {
+    // Collected per request so values reflect the current deployment
+    const { values, namespace, parsed } = collectPublicEnv(options);
+    const payload = generateEnvPayload(values, namespace, { secretGuard, integrityKey });
+    const signature = payload?.signature ? `,"signature":"${payload.signature}"` : '';
+    const body = `{"env":${payload?.json ?? '{}'},"parsed":${parsed}${signature}}`;
+    const etag = `"${await sha256Base64(body)}"`;
+
+    const headers = {
+      'Cache-Control': cacheControl,
+      ETag: etag,
+    };
+
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, {
+      status: 200,
+      headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+    });
+  };
+}
+
+export type { PublicEnvPayload };
@@ -0,0 +1,50 @@
+/**
+ * next-env-guard/script/app
+ *
+ * App Router version of PublicEnvScript that picks up the CSP nonce from the
+ * `x-nonce` request header set by your middleware.
+ *
+ * @example
+ * ```tsx
+ * // app/layout.tsx
+ * import { PublicEnvScript } from 'next-env-guard/script/app';
+ *
+ * export default function RootLayout({ children }) {
+ *   return (
+ *     <html>
+ *       <head>
+ *         <PublicEnvScript />
+ *       </head>
+ *       <body>{children}</body>
+ *     </html>
+ *   );
+ * }
+ * ```
+ */
+
+import { headers } from 'next/headers';
+import { PublicEnvScript as BasePublicEnvScript } from './public-env-script';
+import type { PublicEnvScriptProps } from './public-env-script';
+
+/**
+ * Request header the nonce is read from.
+ */
+const NONCE_HEADER = 'x-nonce';
+
+/**
+ * Async Server Component that renders PublicEnvScript with the request's CSP nonce.
+ * Reading request headers makes the route dynamically rendered, which nonce-based
+ * CSP requires anyway. An explicit `nonce` prop takes precedence.
+ *
+ * @param props - PublicEnvScript props
+ * @returns Script element or null if no client variables found
+ *
+ * @public
+ */
+export async function PublicEnvScript(props: PublicEnvScriptProps): Promise<JSX.Element | null> {
+  // headers() is synchronous before Next.js 15 and a promise from 15 on
+  const nonce = props.nonce ?? (await headers()).get(NONCE_HEADER) ?? undefined;
+  return BasePublicEnvScript({ ...props, nonce });
+}
+
+export type { PublicEnvScriptProps } from './public-env-script';
@@ -3,21 +3,97 @@
  */
 
 import { sanitizeEnvKey } from '../core/security';
+import {
+  PARSED_ENV_MARKER,
+  SIGNATURE_MARKER,
+  getEnvDataElementId,
+  getWindowEnvKey,
+} from '../core/public-env-loader';
+import { createEnvSignature } from '../core/integrity';
+import { sha256Base64 } from '../utils/sha256';
+import { collectPublicEnv } from './public-env';
+import { guardEnvSecrets } from './secret-guard';
+import type { SecretGuardOptions } from './secret-guard';
+import type { PublicEnvScriptProps } from './public-env-script';
 
 /**
- * Generates a script that assigns environment variables to window.__ENV.
- * The script is executed synchronously before React hydration.
- * Uses JSON.stringify for secure serialization to prevent XSS attacks.
- * Includes Content Security Policy (CSP) considerations.
- * 
- * @param envVars - Record of environment variable names and values
- * @param namespace - Optional namespace for window.__ENV key
- * @returns JavaScript code as a string that safely assigns vars to window.__ENV
+ * Options for generateEnvScript.
  */
-export function generateEnvScript(
+export interface GenerateEnvScriptOptions {
+  /**
+   * Secret detection run over the values before they are serialized,
+   * or `false` to disable it.
+   */
+  secretGuard?: SecretGuardOptions | false;
+
+  /**
+   * Whether the values were already parsed by the client schema on the server.
+   * The client then uses them as-is instead of validating them again.
+   * @default false
+   */
+  parsed?: boolean;
+
+  /**
+   * Key for signing the payload with HMAC-SHA256. Pass the same key to
+   * createEnv() so the client rejects a window.__ENV that changed on the way.
+   * The key ships in the client bundle, so this doesn't stop forged payloads.
+   */
+  integrityKey?: string;
+}
+
+/**
+ * Serialized client variables and their signature.
+ */
+export interface EnvPayload {
+  /**
+   * JSON safe to place inside a `<script>` element.
+   */
+  json: string;
+
+  /**
+   * HMAC-SHA256 of `JSON.stringify()` of the values, when an integrity key is set.
+   */
+  signature?: string;
+}
+
+/**
+ * How client variables are delivered to the page:
+ * - `inline`: a script that assigns window.__ENV (needs a CSP nonce or hash)
+ * - `json`: a `<script type="application/json">` element read by the client env,
+ *   which is never executed and so isn't subject to `script-src`
+ */
+export type EnvDeliveryMode = 'inline' | 'json';
+
+/**
+ * Options for generateEnvScriptTag.
+ */
+export interface GenerateEnvScriptTagOptions extends GenerateEnvScriptOptions {
+  /**
+   * Optional namespace for window.__ENV key.
+   */
+  namespace?: string;
+
+  /**
+   * CSP nonce added to the inline script tag.
+   */
+  nonce?: string;
+
+  /**
+   * Delivery mode.
+   * @default 'inline'
+   */
+  mode?: EnvDeliveryMode;
+}
+
+/**
+ * Sanitizes keys and runs the secret guard.
+ * Returns null if there is nothing to inject.
+ */
+function prepareEnvVars(
   envVars: Record<string, unknown>,
-  namespace?: string,
-): string {
+  namespace: string | undefined,
+  options: GenerateEnvScriptOptions,
+): Record<string, unknown> | null {
   // Sanitize keys to prevent injection
   const sanitizedVars: Record<string, unknown> = {};
   for (const key in envVars) {
@@ -34,48 +110,219 @@ export function generateEnvScript(
     }
   }
 
-  const keys = Object.keys(sanitizedVars);
-  if (keys.length === 0) {
+  if (Object.keys(sanitizedVars).length === 0) {
+    return null;
+  }
+
+  if (options.secretGuard !== false) {
+    guardEnvSecrets(sanitizedVars, options.secretGuard, namespace);
+  }
+
+  return sanitizedVars;
+}
+
+/**
+ * Serializes values as JSON that is safe inside a `<script>` element.
+ * `<` is escaped so a value containing `</script>` can't close the element,
+ * and U+2028/U+2029 are escaped for older JavaScript parsers.
+ */
+function serializeEnv(envVars: Record<string, unknown>): string {
+  return JSON.stringify(envVars)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Escapes a value for use in a double-quoted HTML attribute.
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Serializes client variables for injection and signs them if an integrity key is set.
+ * 
+ * @param envVars - Record of environment variable names and values
+ * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Secret guard and integrity configuration
+ * @returns The payload, or null if there is nothing to inject
+ * @throws {EnvSecretLeakError} If a value matches a secret detector set to 'error'
+ */
+export function generateEnvPayload(
+  envVars: Record<string, unknown>,
+  namespace?: string,
+  options: GenerateEnvScriptOptions = {},
+): EnvPayload | null {
+  const preparedVars = prepareEnvVars(envVars, namespace, options);
+  if (!preparedVars) {
+    return null;
+  }
+
+  // The client verifies JSON.stringify() of the object it receives, which matches the unescaped JSON
+  return {
+    json: serializeEnv(preparedVars),
+    signature: options.integrityKey ? createEnvSignature(JSON.stringify(preparedVars), options.integrityKey) : undefined,
+  };
+}
+
+/**
+ * Generates a script that assigns environment variables to window.__ENV.
+ * The script is executed synchronously before React hydration.
+ * Uses JSON.stringify for secure serialization to prevent XSS attacks.
+ * The output is deterministic, so its CSP hash can be computed with getEnvScriptHash().
+ * Values that look like secrets are reported or rejected before serialization.
+ * 
+ * @param envVars - Record of environment variable names and values
+ * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Secret guard and integrity configuration
+ * @returns JavaScript code as a string that safely assigns vars to window.__ENV
+ * @throws {EnvSecretLeakError} If a value matches a secret detector set to 'error'
+ */
+export function generateEnvScript(
+  envVars: Record<string, unknown>,
+  namespace?: string,
+  options: GenerateEnvScriptOptions = {},
+): string {
+  const payload = generateEnvPayload(envVars, namespace, options);
+  if (!payload) {
     return '';
   }
 
-  // Use JSON.stringify for the entire object for maximum security
-  // This is safer than manual string building and handles all edge cases
-  // Object.freeze prevents modification of the environment variables
-  const envObject = Object.fromEntries(
-    keys.map((key) => [key, sanitizedVars[key]])
-  );
-  
-  // Serialize the entire object at once for better security and performance
-  const serializedEnv = JSON.stringify(envObject);
-  
   // Support namespaced access for multiple instances
-  const envKey = namespace ? `__ENV_${namespace}__` : '__ENV';
+  const envKey = getWindowEnvKey(namespace);
+
+  // Non-enumerable markers don't show up in the values or their JSON
+  const markers: string[] = [];
+  if (options.parsed) {
+    markers.push(`Object.defineProperty(e,Symbol.for('${PARSED_ENV_MARKER}'),{value:true});`);
+  }
+  if (payload.signature) {
+    markers.push(`Object.defineProperty(e,Symbol.for('${SIGNATURE_MARKER}'),{value:'${payload.signature}'});`);
+  }
   
   // Create an immediately-invoked function to isolate scope
   // Use Object.freeze to prevent tampering
   // Use Object.defineProperty with configurable: false for additional security
-  const scriptContent = `(function(){Object.defineProperty(window,'${envKey}',{value:Object.freeze(${serializedEnv}),writable:false,configurable:false});})();`;
+  const scriptContent = markers.length > 0
+    ? `(function(){var e=${payload.json};${markers.join('')}Object.defineProperty(window,'${envKey}',{value:Object.freeze(e),writable:false,configurable:false});})();`
+    : `(function(){Object.defineProperty(window,'${envKey}',{value:Object.freeze(${payload.json}),writable:false,configurable:false});})();`;
 
   return scriptContent;
 }
 
+/**
+ * Generates the JSON payload for `json` delivery mode.
+ * 
+ * @param envVars - Record of environment variable names and values
+ * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Secret guard configuration
+ * @returns JSON safe to place inside a `<script type="application/json">` element
+ * @throws {EnvSecretLeakError} If a value matches a secret detector set to 'error'
+ */
+export function generateEnvJson(
+  envVars: Record<string, unknown>,
+  namespace?: string,
+  options: GenerateEnvScriptOptions = {},
+): string {
+  return generateEnvPayload(envVars, namespace, options)?.json ?? '';
+}
+
 /**
  * Generates a complete script tag with the environment variables.
  * 
  * @param envVars - Record of environment variable names and values
+ * @param options - Namespace, CSP nonce, delivery mode, secret guard and integrity configuration
  * @returns Complete script tag HTML
  */
-export function generateEnvScriptTag(envVars: Record<string, unknown>): string {
-  const scriptContent = generateEnvScript(envVars);
-  
+export function generateEnvScriptTag(
+  envVars: Record<string, unknown>,
+  options: GenerateEnvScriptTagOptions = {},
+): string {
+  const { namespace, nonce, mode = 'inline', ...scriptOptions } = options;
+
+  if (mode === 'json') {
+    const payload = generateEnvPayload(envVars, namespace, scriptOptions);
+    if (!payload) {
+      return '';
+    }
+    const parsed = scriptOptions.parsed ? ' data-parsed' : '';
+    const signature = payload.signature ? ` data-signature="${payload.signature}"` : '';
+    return `<script type="application/json" id="${getEnvDataElementId(namespace)}"${parsed}${signature}>${payload.json}</script>`;
+  }
+
+  const scriptContent = generateEnvScript(envVars, namespace, scriptOptions);
+  if (!scriptContent) {
+    return '';
+  }
+
+  // The content is already escaped in generateEnvScript
+  const nonceAttribute = nonce ? ` nonce="${escapeAttribute(nonce)}"` : '';
+  return `<script id="__NEXT_ENV__"${nonceAttribute}>${scriptContent}</script>`;
+}
+
+/**
+ * Computes the CSP source for the exact output of generateEnvScript(), for use in
+ * a `script-src` directive (e.g. from middleware). Uses Web Crypto where available,
+ * so it works in the Edge Runtime and on Node.js 18. The options change the script
+ * (`parsed` and `integrityKey` add markers to it), so they must match the ones it
+ * was generated with. To hash what PublicEnvScript renders, use getPublicEnvScriptHash().
+ * 
+ * @param envVars - Record of environment variable names and values
+ * @param namespace - Optional namespace for window.__ENV key
+ * @param options - Secret guard, parsed flag and integrity configuration
+ * @returns `'sha256-<base64>'`, quoted as CSP expects, or an empty string if there is nothing to inject
+ * 
+ * @example
+ * ```typescript
+ * const { values, namespace, parsed } = collectPublicEnv({ schema: env });
+ * const hash = await getEnvScriptHash(values, namespace, { parsed });
+ * response.headers.set('Content-Security-Policy', `script-src 'self' ${hash}`);
+ * ```
+ */
+export async function getEnvScriptHash(
+  envVars: Record<string, unknown>,
+  namespace?: string,
+  options: GenerateEnvScriptOptions = {},
+): Promise<string> {
+  const scriptContent = generateEnvScript(envVars, namespace, options);
   if (!scriptContent) {
     return '';
   }
 
-  // Use dangerouslySetInnerHTML-style content but with proper escaping
-  // The content is already sanitized in generateEnvScript
-  return `<script id="__NEXT_ENV__" dangerouslySetInnerHTML={{__html: ${JSON.stringify(scriptContent)}}} />`;
+  return `'sha256-${await sha256Base64(scriptContent)}'`;
+}
+
+/**
+ * Computes the CSP source for the inline script PublicEnvScript renders with the
+ * same props, collecting and serializing the values the same way.
+ * 
+ * @param props - The props passed to PublicEnvScript
+ * @returns `'sha256-<base64>'`, quoted as CSP expects, or an empty string if
+ * nothing is rendered or `mode` is `json`, which needs no hash
+ * 
+ * @example
+ * ```typescript
+ * const hash = await getPublicEnvScriptHash({ schema: env, integrityKey });
+ * response.headers.set('Content-Security-Policy', `script-src 'self' ${hash}`);
+ * ```
+ */
+export async function getPublicEnvScriptHash(props: PublicEnvScriptProps = {}): Promise<string> {
+  if (props.mode === 'json') {
+    return '';
+  }
+
+  const { values, namespace, parsed } = collectPublicEnv({
+    env: props.env,
+    schema: props.schema,
+    namespace: props.namespace,
+    clientPrefix: props.clientPrefix,
+  });
+  return getEnvScriptHash(values, namespace, {
+    secretGuard: props.secretGuard,
+    parsed,
+    integrityKey: props.integrityKey,
+  });
 }
 
 /**
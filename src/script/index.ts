@@ -6,4 +6,29 @@
 
 export { PublicEnvScript } from './public-env-script';
 export type { PublicEnvScriptProps } from './public-env-script';
-export { generateEnvScript, generateEnvScriptTag, validateEnvValues } from './generator';
+export {
+  generateEnvScript,
+  generateEnvJson,
+  generateEnvPayload,
+  generateEnvScriptTag,
+  getEnvScriptHash,
+  getPublicEnvScriptHash,
+  validateEnvValues,
+} from './generator';
+export type {
+  EnvDeliveryMode,
+  EnvPayload,
+  GenerateEnvScriptOptions,
+  GenerateEnvScriptTagOptions,
+} from './generator';
+export { fetchPublicEnv, loadPublicEnv } from '../core/public-env-loader';
+export type { FetchPublicEnvOptions, PublicEnvPayload } from '../core/public-env-loader';
+export { collectPublicEnv } from './public-env';
+export type { CollectPublicEnvOptions, PublicEnv } from './public-env';
+export { detectSecrets, guardEnvSecrets } from './secret-guard';
+export type {
+  SecretDetectorName,
+  SecretFinding,
+  SecretGuardAction,
+  SecretGuardOptions,
+} from './secret-guard';
@@ -25,7 +25,12 @@
  * ```
  */
 
-import { generateEnvScript, validateEnvValues } from './generator';
+import type { ZodTypeAny } from 'zod';
+import { generateEnvPayload, generateEnvScript, validateEnvValues } from './generator';
+import type { EnvDeliveryMode } from './generator';
+import { getEnvDataElementId } from '../core/public-env-loader';
+import { collectPublicEnv } from './public-env';
+import type { SecretGuardOptions } from './secret-guard';
 
 /**
  * Props for the PublicEnvScript component.
@@ -34,10 +39,25 @@ export interface PublicEnvScriptProps {
   /**
    * Optional record of environment variables to inject.
    * If not provided, will attempt to read from process.env on the server.
-   * Only variables prefixed with NEXT_PUBLIC_ will be included.
+   * Only variables with the client prefix and shared variables declared
+   * in createEnv() will be included.
    */
   env?: Record<string, unknown>;
 
+  /**
+   * Prefix of the client variables, when createEnv() was given a `clientPrefix`.
+   * Defaults to the prefix registered by createEnv() for the namespace.
+   * @default 'NEXT_PUBLIC_'
+   */
+  clientPrefix?: string;
+
+  /**
+   * Client schema, or the object returned by createEnv().
+   * When set, only the declared keys are injected, validated on the server and
+   * serialized as the schema's output (e.g. numbers instead of strings).
+   */
+  schema?: Record<string, ZodTypeAny> | object;
+
   /**
    * Whether to suppress hydration warnings.
    * Set to true if you expect runtime values to differ from build-time values.
@@ -48,9 +68,38 @@ export interface PublicEnvScriptProps {
   /**
    * Optional namespace for isolating multiple env instances.
    * If provided, variables will be stored in window.__ENV_${namespace}__
-   * Must match the namespace used in createEnv().
+   * Must match the namespace used in createEnv(). Defaults to that namespace
+   * when `schema` is the createEnv() result.
    */
   namespace?: string;
+
+  /**
+   * Secret detection run over the values before injection, or `false` to disable it.
+   * By default private keys, cloud/API tokens and values equal to a server
+   * variable throw; JWTs and high-entropy strings only warn.
+   */
+  secretGuard?: SecretGuardOptions | false;
+
+  /**
+   * CSP nonce for the inline script.
+   * The App Router component from `next-env-guard/script/app` reads it from the
+   * `x-nonce` request header automatically.
+   */
+  nonce?: string;
+
+  /**
+   * `inline` renders a script that assigns window.__ENV; `json` renders a
+   * `<script type="application/json">` element that the client env reads,
+   * so no inline script runs.
+   * @default 'inline'
+   */
+  mode?: EnvDeliveryMode;
+
+  /**
+   * Key for signing the payload with HMAC-SHA256. Pass the same key to
+   * createEnv() so the client rejects a window.__ENV defined by another script.
+   */
+  integrityKey?: string;
 }
 
 /**
@@ -73,7 +122,12 @@ export interface PublicEnvScriptProps {
  * 
  * @param props - Component props
  * @param props.env - Optional record of environment variables (if not provided, reads from process.env)
+ * @param props.schema - Client schema or createEnv() result limiting which variables are injected
  * @param props.suppressHydrationWarning - Whether to suppress hydration warnings
+ * @param props.secretGuard - Secret detection options, or false to disable it
+ * @param props.nonce - CSP nonce for the inline script
+ * @param props.mode - Delivery mode, inline script or JSON data
+ * @param props.integrityKey - Key for signing the payload
  * @returns Script element or null if no client variables found
  * 
  * @example
@@ -98,39 +152,48 @@ export interface PublicEnvScriptProps {
 export function PublicEnvScript({
   env,
   suppressHydrationWarning = false,
+  schema,
   namespace,
+  clientPrefix,
+  secretGuard,
+  nonce,
+  mode = 'inline',
+  integrityKey,
 }: PublicEnvScriptProps): JSX.Element | null {
-  // Get environment variables to inject
-  // If env is provided, use it; otherwise read from process.env (server-side only)
-  let envVars: Record<string, unknown>;
-
-  if (env) {
-    // Filter to only NEXT_PUBLIC_ variables (optimized iteration)
-    envVars = {};
-    for (const key in env) {
-      if (Object.prototype.hasOwnProperty.call(env, key) && key.startsWith('NEXT_PUBLIC_')) {
-        envVars[key] = env[key];
-      }
-    }
-  } else if (typeof window === 'undefined' && typeof process !== 'undefined') {
-    // Read from process.env (server-side only) - optimized iteration
-    envVars = {};
-    for (const key in process.env) {
-      if (Object.prototype.hasOwnProperty.call(process.env, key) && key.startsWith('NEXT_PUBLIC_')) {
-        envVars[key] = process.env[key];
-      }
-    }
-  } else {
-    // Client-side fallback (shouldn't happen in Server Component)
-    envVars = {};
-  }
+  // Get environment variables to inject, limited to the schema's keys when one is given
+  const { values: envVars, namespace: envNamespace, parsed } = collectPublicEnv({
+    env,
+    schema,
+    namespace,
+    clientPrefix,
+  });
 
   // Validate environment variable values
   validateEnvValues(envVars);
 
+  // Values are delivered as JSON data, which needs no script-src allowance
+  if (mode === 'json') {
+    const payload = Object.keys(envVars).length > 0
+      ? generateEnvPayload(envVars, envNamespace, { secretGuard, parsed, integrityKey })
+      : null;
+    if (!payload) {
+      return null;
+    }
+    return (
+      <script
+        id={getEnvDataElementId(envNamespace)}
+        type="application/json"
+        data-parsed={parsed ? '' : undefined}
+        data-signature={payload.signature}
+        suppressHydrationWarning={suppressHydrationWarning}
+        dangerouslySetInnerHTML={{ __html: payload.json }}
+      />
+    );
+  }
+
   // Generate script content with namespace support
   const scriptContent = Object.keys(envVars).length > 0
-    ? generateEnvScript(envVars, namespace)
+    ? generateEnvScript(envVars, envNamespace, { secretGuard, parsed, integrityKey })
     : '';
 
   // Don't render anything if there are no environment variables
@@ -142,6 +205,7 @@ export function PublicEnvScript({
   return (
     <script
       id="__NEXT_ENV__"
+      nonce={nonce}
       suppressHydrationWarning={suppressHydrationWarning}
       dangerouslySetInnerHTML={{ __html: scriptContent }}
     />
@@ -0,0 +1,131 @@
+/**
+ * Selection of the client variables PublicEnvScript injects.
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { getEnvSchema, getRegisteredEnvSchemas } from '../core/schema-metadata';
+import { DEFAULT_CLIENT_PREFIX, validateClientVariableNames, validateEnv } from '../core/validator';
+
+/**
+ * Options for collectPublicEnv.
+ */
+export interface CollectPublicEnvOptions {
+  /**
+   * Values to read from. Defaults to process.env on the server.
+   */
+  env?: Record<string, unknown>;
+
+  /**
+   * Client schema, or the object returned by createEnv().
+   * When set, only declared keys are collected and values are parsed by the schema.
+   * An env object contributes both its client and shared variables.
+   */
+  schema?: Record<string, ZodTypeAny> | object;
+
+  /**
+   * Namespace for window.__ENV. Defaults to the createEnv() namespace when
+   * `schema` is an env object.
+   */
+  namespace?: string;
+
+  /**
+   * Prefix of the variables to collect. Defaults to the `clientPrefix` passed
+   * to createEnv() for the same namespace, or NEXT_PUBLIC_.
+   */
+  clientPrefix?: string;
+}
+
+/**
+ * Client variables ready for injection.
+ */
+export interface PublicEnv {
+  values: Record<string, unknown>;
+  namespace?: string;
+
+  /**
+   * Whether the values are schema output rather than raw strings.
+   * False when a parsed value wouldn't survive JSON, so the client parses the raw values.
+   */
+  parsed: boolean;
+}
+
+/**
+ * Whether a value reaches the client unchanged through JSON.
+ * Dates, bigints, class instances and the like don't, so they can't be sent as parsed.
+ */
+function isJsonSafe(value: unknown): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return true;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJsonSafe);
+  }
+  if (typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value);
+    return (prototype === Object.prototype || prototype === null) && Object.values(value).every(isJsonSafe);
+  }
+  return false;
+}
+
+/**
+ * Collects the client variables to inject into window.__ENV.
+ * Without a schema, every variable with the client prefix is collected as-is, along with
+ * the shared variables of createEnv() calls registered under the same namespace.
+ * With a schema, the parsed values are collected, unless one of them wouldn't survive
+ * JSON (e.g. a Date); then the raw values of the declared keys are collected instead,
+ * for the client to parse.
+ *
+ * @param options - Source values, schema and namespace
+ * @returns Values to inject and the namespace to inject them under
+ * @throws {EnvClientPrefixError} If a schema key doesn't start with the client prefix
+ * @throws {EnvValidationError} If a declared value fails validation
+ */
+export function collectPublicEnv(options: CollectPublicEnvOptions = {}): PublicEnv {
+  const source: Record<string, unknown> =
+    options.env ?? (typeof window === 'undefined' && typeof process !== 'undefined' ? process.env : {});
+
+  if (!options.schema) {
+    const sharedKeys = new Set<string>();
+    let clientPrefix = options.clientPrefix;
+    for (const metadata of getRegisteredEnvSchemas()) {
+      if (metadata.namespace === options.namespace) {
+        Object.keys(metadata.shared).forEach((key) => sharedKeys.add(key));
+        clientPrefix ??= metadata.clientPrefix;
+      }
+    }
+    clientPrefix ??= DEFAULT_CLIENT_PREFIX;
+
+    // Filter to only prefixed and shared variables (optimized iteration)
+    const values: Record<string, unknown> = {};
+    for (const key in source) {
+      if (Object.prototype.hasOwnProperty.call(source, key) && (key.startsWith(clientPrefix) || sharedKeys.has(key))) {
+        values[key] = source[key];
+      }
+    }
+    return { values, namespace: options.namespace, parsed: false };
+  }
+
+  const metadata = getEnvSchema(options.schema);
+  const clientSchema = metadata ? metadata.client : (options.schema as Record<string, ZodTypeAny>);
+  validateClientVariableNames(clientSchema, options.clientPrefix ?? metadata?.clientPrefix);
+
+  // Shared variables are injected alongside the client ones without needing the prefix
+  const publicSchema = metadata ? { ...metadata.shared, ...clientSchema } : clientSchema;
+
+  const namespace = options.namespace ?? metadata?.namespace;
+  const values = validateEnv(publicSchema, source as NodeJS.ProcessEnv);
+  if (Object.values(values).every((value) => value === undefined || isJsonSafe(value))) {
+    return { values, namespace, parsed: true };
+  }
+
+  const rawValues: Record<string, unknown> = {};
+  for (const key of Object.keys(publicSchema)) {
+    if (source[key] !== undefined) {
+      rawValues[key] = source[key];
+    }
+  }
+  return { values: rawValues, namespace, parsed: false };
+}
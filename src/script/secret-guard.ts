@@ -0,0 +1,232 @@
+/**
+ * Heuristic secret detection for values about to be injected into window.__ENV.
+ * Catches server secrets that were given a NEXT_PUBLIC_ prefix by mistake.
+ */
+
+import { EnvSecretLeakError } from '../core/errors';
+import { observabilityHooks } from '../core/hooks/observability';
+import { getRegisteredEnvSchemas } from '../core/schema-metadata';
+
+/**
+ * Names of the built-in detectors.
+ */
+export type SecretDetectorName =
+  | 'private-key'
+  | 'aws'
+  | 'gcp'
+  | 'stripe'
+  | 'github'
+  | 'jwt'
+  | 'high-entropy'
+  | 'server-value';
+
+/**
+ * What to do when a detector matches.
+ */
+export type SecretGuardAction = 'error' | 'warn' | 'off';
+
+/**
+ * Options for the secret guard.
+ */
+export interface SecretGuardOptions {
+  /**
+   * Action per detector. Unlisted detectors use their default:
+   * `jwt` and `high-entropy` warn, all others throw.
+   */
+  detectors?: Partial<Record<SecretDetectorName, SecretGuardAction>>;
+
+  /**
+   * Detectors to skip per key, or `true` to skip all of them for that key.
+   *
+   * @example { NEXT_PUBLIC_SUPABASE_ANON_KEY: ['jwt'] }
+   */
+  allow?: Record<string, SecretDetectorName[] | true>;
+
+  /**
+   * Values of server variables, keyed by name, for the `server-value` detector.
+   * Defaults to process.env values of the server keys registered by createEnv().
+   */
+  serverValues?: Record<string, unknown>;
+
+  /**
+   * Minimum Shannon entropy, in bits per character, for the `high-entropy` detector.
+   * @default 4
+   */
+  entropyThreshold?: number;
+
+  /**
+   * Values shorter than this are ignored by the `high-entropy` detector.
+   * @default 20
+   */
+  minEntropyLength?: number;
+}
+
+/**
+ * A value that looks like a secret.
+ */
+export interface SecretFinding {
+  key: string;
+  detector: SecretDetectorName;
+  reason: string;
+  action: Exclude<SecretGuardAction, 'off'>;
+}
+
+const DEFAULT_ACTIONS: Record<SecretDetectorName, SecretGuardAction> = {
+  'private-key': 'error',
+  aws: 'error',
+  gcp: 'error',
+  stripe: 'error',
+  github: 'error',
+  // Public JWTs (e.g. Supabase anon keys) and random-looking public IDs are common
+  jwt: 'warn',
+  'high-entropy': 'warn',
+  'server-value': 'error',
+};
+
+const SERVER_VALUE_MIN_LENGTH = 8;
+
+/**
+ * Pattern detectors, checked in order. The first match per detector is reported.
+ */
+const PATTERN_DETECTORS: Array<{ detector: SecretDetectorName; reason: string; pattern: RegExp }> = [
+  { detector: 'private-key', reason: 'contains a PEM private key', pattern: /-----BEGIN[A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/ },
+  { detector: 'aws', reason: 'looks like an AWS access key ID', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/ },
+  { detector: 'gcp', reason: 'looks like a GCP service account key', pattern: /"type"\s*:\s*"service_account"|"private_key_id"\s*:/ },
+  { detector: 'gcp', reason: 'looks like a Google OAuth client secret', pattern: /\bGOCSPX-[\w-]{20,}/ },
+  { detector: 'stripe', reason: 'looks like a Stripe secret key', pattern: /\b(?:sk|rk)_(?:live|test)_[0-9A-Za-z]{10,}/ },
+  { detector: 'stripe', reason: 'looks like a Stripe webhook secret', pattern: /\bwhsec_[0-9A-Za-z]{20,}/ },
+  { detector: 'github', reason: 'looks like a GitHub token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/ },
+  { detector: 'jwt', reason: 'looks like a JWT', pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/ },
+];
+
+/**
+ * Calculates the Shannon entropy of a string in bits per character.
+ */
+function getEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const probability = count / value.length;
+    entropy -= probability * Math.log2(probability);
+  }
+  return entropy;
+}
+
+/**
+ * Reads the values of server variables registered by createEnv() for a namespace.
+ */
+function getRegisteredServerValues(namespace?: string): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  if (typeof process === 'undefined' || !process.env) {
+    return values;
+  }
+
+  for (const metadata of getRegisteredEnvSchemas()) {
+    if (metadata.namespace !== namespace) {
+      continue;
+    }
+    for (const key of Object.keys(metadata.server)) {
+      values[key] = process.env[key];
+    }
+  }
+  return values;
+}
+
+/**
+ * Runs the detectors over client variable values.
+ *
+ * @param envVars - Client variables about to be injected
+ * @param options - Detector actions, allowlist and server values
+ * @param namespace - Namespace used to find registered server variables
+ * @returns Every match, in key order
+ */
+export function detectSecrets(
+  envVars: Record<string, unknown>,
+  options: SecretGuardOptions = {},
+  namespace?: string,
+): SecretFinding[] {
+  const { allow = {}, entropyThreshold = 4, minEntropyLength = 20 } = options;
+  const actions = { ...DEFAULT_ACTIONS, ...options.detectors };
+  const serverValues = options.serverValues ?? getRegisteredServerValues(namespace);
+
+  // Map server values back to their keys; short values match too much by accident
+  const serverKeysByValue = new Map<string, string>();
+  for (const [key, value] of Object.entries(serverValues)) {
+    if (typeof value === 'string' && value.length >= SERVER_VALUE_MIN_LENGTH && !(key in envVars)) {
+      serverKeysByValue.set(value, key);
+    }
+  }
+
+  const findings: SecretFinding[] = [];
+
+  for (const key of Object.keys(envVars)) {
+    const value = envVars[key];
+    if (value === null || value === undefined) {
+      continue;
+    }
+    const str = typeof value === 'string' ? value : JSON.stringify(value);
+    const allowed = allow[key];
+
+    const report = (detector: SecretDetectorName, reason: string) => {
+      const action = actions[detector];
+      if (action === 'off' || allowed === true || allowed?.includes(detector)) {
+        return;
+      }
+      if (!findings.some((finding) => finding.key === key && finding.detector === detector)) {
+        findings.push({ key, detector, reason, action });
+      }
+    };
+
+    for (const { detector, reason, pattern } of PATTERN_DETECTORS) {
+      if (pattern.test(str)) {
+        report(detector, reason);
+      }
+    }
+
+    const serverKey = serverKeysByValue.get(str);
+    if (serverKey) {
+      report('server-value', `has the same value as server variable ${serverKey}`);
+    }
+
+    // Only token-like values; URLs and sentences have too many false positives
+    if (str.length >= minEntropyLength && /^[A-Za-z0-9+/=_-]+$/.test(str) && getEntropy(str) >= entropyThreshold) {
+      report('high-entropy', 'is a high-entropy string');
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Checks client variable values before injection.
+ * Warnings go to the observability logger; error findings throw.
+ *
+ * @param envVars - Client variables about to be injected
+ * @param options - Detector actions, allowlist and server values
+ * @param namespace - Namespace used to find registered server variables
+ * @throws {EnvSecretLeakError} If any detector set to 'error' matched
+ */
+export function guardEnvSecrets(
+  envVars: Record<string, unknown>,
+  options: SecretGuardOptions = {},
+  namespace?: string,
+): void {
+  const findings = detectSecrets(envVars, options, namespace);
+
+  for (const { key, detector, reason } of findings.filter(({ action }) => action === 'warn')) {
+    observabilityHooks.logWarn(
+      `⚠️  Client environment variable "${key}" ${reason} (${detector}). ` +
+        'Move it to the server schema if it is a secret.',
+      { key, detector },
+    );
+  }
+
+  const errors = findings.filter(({ action }) => action === 'error');
+  if (errors.length > 0) {
+    throw new EnvSecretLeakError(errors);
+  }
+}
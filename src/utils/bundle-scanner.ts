@@ -0,0 +1,203 @@
+/**
+ * Post-build scanner for server secrets in emitted client assets.
+ * Looks for the actual values of server variables (literal, base64 and
+ * URL-encoded) in the files under `.next/static`, catching leaks through
+ * next.config `env` inlining or direct process.env reads.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isSecretSchema } from '../core/secret';
+import type { EnvSchemaMetadata } from '../core/schema-metadata';
+
+/**
+ * How a secret value appeared in a file.
+ */
+export type SecretEncoding = 'literal' | 'base64' | 'url';
+
+/**
+ * Options for scanBundleForSecrets.
+ */
+export interface BundleScanOptions {
+  /**
+   * Directory of built client assets.
+   * @default '.next/static'
+   */
+  directory?: string;
+
+  /**
+   * Server variable values to look for, keyed by variable name.
+   */
+  secrets: Record<string, string | undefined>;
+
+  /**
+   * Values shorter than this are skipped, since they match too much by accident.
+   * @default 8
+   */
+  minLength?: number;
+}
+
+/**
+ * A server secret found in a built file.
+ */
+export interface BundleSecretFinding {
+  /**
+   * File path relative to the scanned directory.
+   */
+  file: string;
+  key: string;
+  encoding: SecretEncoding;
+  occurrences: number;
+}
+
+/**
+ * Result of scanBundleForSecrets.
+ */
+export interface BundleScanResult {
+  scannedFiles: number;
+  findings: BundleSecretFinding[];
+
+  /**
+   * Keys whose values were too short to scan for.
+   */
+  skippedKeys: string[];
+}
+
+const SCANNED_EXTENSIONS = new Set(['.js', '.mjs', '.cjs', '.json', '.html', '.css', '.map', '.txt']);
+
+/**
+ * Recursively lists files under a directory.
+ */
+function listFiles(directory: string, files: string[] = []): string[] {
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      listFiles(entryPath, files);
+    } else if (SCANNED_EXTENSIONS.has(path.extname(entry.name))) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Returns the forms a value can take in a bundle, deduplicated.
+ */
+function getEncodedForms(value: string): Array<{ encoding: SecretEncoding; needles: string[] }> {
+  const forms: Array<{ encoding: SecretEncoding; needles: string[] }> = [{ encoding: 'literal', needles: [value] }];
+  forms.push({ encoding: 'base64', needles: getBase64Needles(Buffer.from(value, 'utf-8')) });
+
+  const urlEncoded = encodeURIComponent(value);
+  if (urlEncoded !== value) {
+    forms.push({ encoding: 'url', needles: [urlEncoded] });
+  }
+
+  return forms;
+}
+
+/**
+ * Returns the base64 text of a value at each of the three byte offsets it can
+ * start at inside a larger base64 payload. Characters that also encode the
+ * neighbouring bytes are dropped, along with the padding.
+ */
+function getBase64Needles(bytes: Buffer): string[] {
+  const needles = new Set<string>();
+  for (let offset = 0; offset < 3; offset++) {
+    const encoded = Buffer.concat([Buffer.alloc(offset), bytes]).toString('base64').replace(/=+$/, '');
+    const start = Math.ceil((offset * 8) / 6);
+    const end = (offset + bytes.length) % 3 === 0 ? encoded.length : encoded.length - 1;
+    needles.add(encoded.slice(start, end));
+  }
+  return Array.from(needles);
+}
+
+/**
+ * Picks the server values to scan for. By default only variables marked
+ * secret (with secret() or createEnv()'s `secrets`) are included, since
+ * ordinary server values such as an environment name or a public hostname
+ * can legitimately appear in client code.
+ * A server value that is also the value of a client or shared variable is public by design.
+ *
+ * @param schemas - Schemas of the env objects to check
+ * @param env - Variable values
+ * @param all - Include every server variable, not just secret ones
+ * @returns Values to pass as scanBundleForSecrets()'s `secrets`
+ */
+export function collectBundleSecrets(
+  schemas: Array<Pick<EnvSchemaMetadata, 'server' | 'client' | 'shared'>>,
+  env: Record<string, string | undefined>,
+  all = false,
+): Record<string, string | undefined> {
+  const publicValues = new Set(
+    schemas
+      .flatMap(({ client, shared }) => [...Object.keys(client), ...Object.keys(shared)].map((key) => env[key]))
+      .filter(Boolean),
+  );
+  const secrets: Record<string, string | undefined> = {};
+  for (const { server } of schemas) {
+    for (const [key, schema] of Object.entries(server)) {
+      if ((all || isSecretSchema(schema)) && !publicValues.has(env[key])) {
+        secrets[key] = env[key];
+      }
+    }
+  }
+  return secrets;
+}
+
+/**
+ * Counts non-overlapping occurrences of a needle.
+ */
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Scans built client assets for server secret values.
+ *
+ * @param options - Directory, secrets and minimum value length
+ * @returns Every file/key/encoding combination that was found
+ * @throws {Error} If the directory doesn't exist
+ */
+export function scanBundleForSecrets(options: BundleScanOptions): BundleScanResult {
+  const { directory = path.join('.next', 'static'), secrets, minLength = 8 } = options;
+
+  if (!fs.existsSync(directory)) {
+    throw new Error(`Build output not found: ${directory}. Run "next build" first.`);
+  }
+
+  const skippedKeys: string[] = [];
+  const searches: Array<{ key: string; encoding: SecretEncoding; needles: string[] }> = [];
+  for (const [key, value] of Object.entries(secrets)) {
+    if (value === undefined || value.length < minLength) {
+      skippedKeys.push(key);
+      continue;
+    }
+    for (const form of getEncodedForms(value)) {
+      searches.push({ key, ...form });
+    }
+  }
+
+  const files = listFiles(directory);
+  const findings: BundleSecretFinding[] = [];
+
+  for (const filePath of files) {
+    const content = fs.readFileSync(filePath, 'utf-8');
+    for (const { key, encoding, needles } of searches) {
+      const occurrences = needles.reduce((total, needle) => total + countOccurrences(content, needle), 0);
+      if (occurrences > 0) {
+        findings.push({
+          file: path.relative(directory, filePath),
+          key,
+          encoding,
+          occurrences,
+        });
+      }
+    }
+  }
+
+  return { scannedFiles: files.length, findings, skippedKeys };
+}
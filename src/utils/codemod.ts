@@ -0,0 +1,201 @@
+/**
+ * Codemod that rewrites `process.env.KEY` reads to `env.KEY`.
+ * Used by the next-env-guard-codemod CLI after adopting createEnv().
+ */
+
+import * as path from 'path';
+import type { ZodTypeAny } from 'zod';
+import { findPropertyReads, getPosition, maskSource } from './source-scanner';
+import { zodToTypeString } from './zod-introspect';
+
+/**
+ * Options for transformEnvUsages.
+ */
+export interface EnvCodemodOptions {
+  /**
+   * Keys declared in the schema. Only reads of these keys are rewritten.
+   */
+  schemaKeys: Iterable<string>;
+
+  /**
+   * Module specifier to import `env` from, e.g. `@/env` or `../env`.
+   */
+  importPath: string;
+
+  /**
+   * Undeclared keys that shouldn't be reported (e.g. NODE_ENV, which Next.js sets itself).
+   * @default ['NODE_ENV', 'NEXT_RUNTIME', 'NEXT_PHASE']
+   */
+  ignoreKeys?: Iterable<string>;
+}
+
+/**
+ * A `process.env` read found in a file.
+ */
+export interface EnvUsage {
+  key: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Result of transforming a single file.
+ */
+export interface EnvCodemodResult {
+  /**
+   * Transformed source (unchanged if nothing was rewritten).
+   */
+  output: string;
+
+  /**
+   * Reads that were rewritten to `env.KEY`.
+   */
+  rewritten: EnvUsage[];
+
+  /**
+   * Reads of keys that aren't declared in the schema.
+   */
+  undeclared: EnvUsage[];
+
+  /**
+   * Set when the file wasn't rewritten because `env` already refers to something else.
+   */
+  conflict?: string;
+}
+
+const DEFAULT_IGNORED_KEYS = ['NODE_ENV', 'NEXT_RUNTIME', 'NEXT_PHASE'];
+const JS_EXTENSIONS = new Set(['.js', '.mjs', '.cjs']);
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const PROCESS_ENV = 'process\\s*\\.\\s*env';
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the offset after the last top-level import and leading directives
+ * ('use client', 'use server'), where a new import can be inserted.
+ */
+function findImportInsertionPoint(source: string, masked: string): number {
+  let insertAt = 0;
+
+  // Skip a shebang and leading directives
+  const prologue = /^(?:#![^\n]*\n)?(?:\s*(['"])use [a-z]+\1;?[^\S\n]*\n)*/.exec(source);
+  if (prologue) {
+    insertAt = prologue[0].length;
+  }
+
+  const importStatement = /^import\s[^;]*?(?:from\s*)?['"][^'"\n]*['"];?[^\S\n]*\n?/gm;
+  let match: RegExpExecArray | null;
+  while ((match = importStatement.exec(masked)) !== null) {
+    insertAt = Math.max(insertAt, match.index + match[0].length);
+  }
+
+  return insertAt;
+}
+
+/**
+ * Rewrites reads of schema-declared keys from `process.env` to `env` and adds the import.
+ * Assignments (`process.env.KEY = ...`), deletes and dynamic reads (`process.env[name]`)
+ * are left alone.
+ *
+ * @param source - File content
+ * @param options - Declared keys and the module to import `env` from
+ * @returns Transformed source and the reads that were found
+ */
+export function transformEnvUsages(source: string, options: EnvCodemodOptions): EnvCodemodResult {
+  const schemaKeys = new Set(options.schemaKeys);
+  const ignoreKeys = new Set(options.ignoreKeys ?? DEFAULT_IGNORED_KEYS);
+  const masked = maskSource(source);
+
+  const rewritten: EnvUsage[] = [];
+  const undeclared: EnvUsage[] = [];
+  const replacements: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const { key, start, end } of findPropertyReads(source, masked, PROCESS_ENV)) {
+    const usage = { key, ...getPosition(source, start) };
+    if (!schemaKeys.has(key)) {
+      if (!ignoreKeys.has(key)) {
+        undeclared.push(usage);
+      }
+      continue;
+    }
+
+    rewritten.push(usage);
+    replacements.push({
+      start,
+      end,
+      text: IDENTIFIER.test(key) ? `env.${key}` : `env[${JSON.stringify(key)}]`,
+    });
+  }
+
+  if (replacements.length === 0) {
+    return { output: source, rewritten, undeclared };
+  }
+
+  // Only add the import if `env` isn't already imported from the env module
+  const existingImport = new RegExp(
+    `import\\s*(?:type\\s+)?\\{[^}]*\\benv\\b[^}]*\\}\\s*from\\s*['"]${escapeRegExp(options.importPath)}['"]`,
+  );
+  const hasImport = existingImport.test(source);
+  if (!hasImport && /(?:\b(?:const|let|var|function|class|import)\s+|[{,]\s*)env\b(?!\s*:)/.test(masked)) {
+    return {
+      output: source,
+      rewritten: [],
+      undeclared,
+      conflict: '`env` is already declared in this file',
+    };
+  }
+
+  let output = source;
+  for (const { start, end, text } of replacements.reverse()) {
+    output = output.slice(0, start) + text + output.slice(end);
+  }
+
+  if (!hasImport) {
+    const insertAt = findImportInsertionPoint(output, maskSource(output));
+    const needsNewline = insertAt > 0 && output[insertAt - 1] !== '\n';
+    output = `${output.slice(0, insertAt)}${needsNewline ? '\n' : ''}import { env } from '${options.importPath}';\n${output.slice(insertAt)}`;
+  }
+
+  return { output, rewritten, undeclared };
+}
+
+/**
+ * Returns the import specifier for the schema module relative to a file.
+ * JavaScript extensions are kept, since Node.js ESM doesn't resolve specifiers
+ * without them; TypeScript extensions are dropped.
+ *
+ * @param filePath - File the import is added to
+ * @param schemaPath - Path to the env module
+ * @returns Relative specifier, e.g. `../env.mjs`
+ */
+export function getEnvImportPath(filePath: string, schemaPath: string): string {
+  const extension = path.extname(schemaPath);
+  const target = JS_EXTENSIONS.has(extension) ? schemaPath : schemaPath.slice(0, schemaPath.length - extension.length);
+  const relative = path.relative(path.dirname(filePath), target).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Finds the variables whose parsed value isn't always a string, unlike the
+ * `process.env` value they replace (e.g. `z.coerce.number()` for a port).
+ * Code comparing or concatenating them may behave differently after the rewrite.
+ *
+ * @param schema - Schemas by variable name
+ * @returns Output type by variable name, for the variables that aren't strings
+ */
+export function getParsedEnvTypes(schema: Record<string, ZodTypeAny>): Record<string, string> {
+  const types: Record<string, string> = {};
+  for (const [key, zodSchema] of Object.entries(schema)) {
+    const type = zodToTypeString(zodSchema);
+    const isString = type.split(' | ').every((member) => member === 'string' || member === 'undefined' || /^".*"$/.test(member));
+    if (!isString) {
+      types[key] = type;
+    }
+  }
+  return types;
+}
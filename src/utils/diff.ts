@@ -0,0 +1,147 @@
+/**
+ * Minimal unified diff generation (Myers' algorithm), used to preview codemod changes.
+ */
+
+/**
+ * Options for createUnifiedDiff.
+ */
+export interface UnifiedDiffOptions {
+  /**
+   * Name shown in the `---` header.
+   */
+  fromFile: string;
+
+  /**
+   * Name shown in the `+++` header.
+   * @default fromFile
+   */
+  toFile?: string;
+
+  /**
+   * Number of unchanged lines shown around each change.
+   * @default 3
+   */
+  context?: number;
+}
+
+/**
+ * A line in the edit script.
+ */
+interface DiffLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+/**
+ * Computes the shortest edit script between two line arrays.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  outer:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break outer;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edits
+  const lines: DiffLine[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: ' ', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push({ type: '+', text: b[--y] });
+      } else {
+        lines.push({ type: '-', text: a[--x] });
+      }
+    }
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Creates a unified diff between two versions of a file.
+ *
+ * @param oldText - Original content
+ * @param newText - Modified content
+ * @param options - File names and context size
+ * @returns The diff, or an empty string if the contents are identical
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const { fromFile, toFile = fromFile, context = 3 } = options;
+  const lines = diffLines(oldText.split('\n'), newText.split('\n'));
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+
+  let index = 0;
+  while (index < lines.length) {
+    // Find the next change
+    while (index < lines.length && lines[index].type === ' ') {
+      index++;
+    }
+    if (index >= lines.length) {
+      break;
+    }
+
+    // Extend the hunk until there are more than 2 * context unchanged lines in a row
+    const start = Math.max(0, index - context);
+    let end = index;
+    let unchanged = 0;
+    while (end < lines.length && unchanged <= 2 * context) {
+      unchanged = lines[end].type === ' ' ? unchanged + 1 : 0;
+      end++;
+    }
+    end = Math.min(lines.length, end - unchanged + context);
+
+    // Line numbers of the hunk start in each file
+    let oldStart = 1;
+    let newStart = 1;
+    for (let i = 0; i < start; i++) {
+      if (lines[i].type !== '+') oldStart++;
+      if (lines[i].type !== '-') newStart++;
+    }
+
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== '+').length;
+    const newCount = hunk.filter((line) => line.type !== '-').length;
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    hunk.forEach((line) => output.push(`${line.type}${line.text}`));
+
+    index = end;
+  }
+
+  return `${output.join('\n')}\n`;
+}
@@ -0,0 +1,224 @@
+/**
+ * Encrypted .env files that can be committed.
+ * `.env.<env>.encrypted` keeps variable names readable and encrypts each value
+ * with AES-256-GCM, using the variable name as associated data so values can't
+ * be swapped between variables. The key comes from NEXT_ENV_GUARD_KEY.
+ */
+
+import * as crypto from 'crypto';
+import { parseEnvEntries } from './env-parser';
+import { EnvDecryptionError } from '../core/errors';
+
+/**
+ * Environment variable holding the base64-encoded 32-byte key.
+ */
+export const ENV_KEY_VARIABLE = 'NEXT_ENV_GUARD_KEY';
+
+const ENCRYPTED_PREFIX = 'encrypted:v1:';
+const FINGERPRINT_PATTERN = /^# next-env-guard-key: ([0-9a-f]{8})$/m;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Gets the name of the encrypted file for an environment.
+ *
+ * @param nodeEnv - Environment name, e.g. `production`
+ * @returns `.env.<nodeEnv>.encrypted`
+ */
+export function getEncryptedEnvFileName(nodeEnv: string): string {
+  return `.env.${nodeEnv}.encrypted`;
+}
+
+/**
+ * Generates a random key for NEXT_ENV_GUARD_KEY.
+ *
+ * @returns Base64-encoded 32-byte key
+ */
+export function generateEnvKey(): string {
+  return crypto.randomBytes(32).toString('base64');
+}
+
+/**
+ * Decodes a key, checking its length.
+ */
+function decodeKey(key: string): Buffer {
+  const bytes = Buffer.from(key.trim(), 'base64');
+  if (bytes.length !== 32) {
+    throw new Error(
+      `${ENV_KEY_VARIABLE} must be a base64-encoded 32-byte key. Generate one with next-env-guard-encrypt --generate-key.`,
+    );
+  }
+  return bytes;
+}
+
+/**
+ * Short, non-reversible identifier of a key, written to the encrypted file so a
+ * wrong key can be told apart from a modified value.
+ */
+function getKeyFingerprint(key: Buffer): string {
+  return crypto.createHash('sha256').update('next-env-guard-key').update(key).digest('hex').slice(0, 8);
+}
+
+/**
+ * Checks whether a value was produced by encryptEnvValue().
+ */
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Encrypts a single value.
+ *
+ * @param name - Variable name, bound to the ciphertext
+ * @param value - Plaintext value
+ * @param key - Base64-encoded 32-byte key
+ * @returns `encrypted:v1:<iv>:<ciphertext and tag>`, base64-encoded
+ */
+export function encryptEnvValue(name: string, value: string, key: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', decodeKey(key), iv);
+  cipher.setAAD(Buffer.from(name, 'utf-8'));
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final(), cipher.getAuthTag()]);
+  return `${ENCRYPTED_PREFIX}${iv.toString('base64')}:${ciphertext.toString('base64')}`;
+}
+
+/**
+ * Decrypts a single value. Values that aren't encrypted are returned as is.
+ *
+ * @param name - Variable name the value was encrypted for
+ * @param value - Encrypted value
+ * @param key - Base64-encoded 32-byte key
+ * @param filePath - File path, used in error messages
+ * @returns Plaintext value
+ * @throws {EnvDecryptionError} If the key is wrong or the value was modified
+ */
+export function decryptEnvValue(name: string, value: string, key: string, filePath = '.env'): string {
+  if (!isEncryptedValue(value)) {
+    return value;
+  }
+
+  const [ivText, dataText] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const iv = Buffer.from(ivText ?? '', 'base64');
+  const data = Buffer.from(dataText ?? '', 'base64');
+  if (iv.length !== IV_LENGTH || data.length < TAG_LENGTH) {
+    throw new EnvDecryptionError(filePath, 'the encrypted value is malformed', name);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', decodeKey(key), iv);
+    decipher.setAAD(Buffer.from(name, 'utf-8'));
+    decipher.setAuthTag(data.subarray(data.length - TAG_LENGTH));
+    return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_LENGTH)), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new EnvDecryptionError(
+      filePath,
+      `authentication failed. Either ${ENV_KEY_VARIABLE} is not the key it was encrypted with, or the value was modified.`,
+      name,
+    );
+  }
+}
+
+/**
+ * Checks the key fingerprint written by encryptEnvFile(), so a wrong key
+ * fails with one clear error instead of one per variable.
+ *
+ * @throws {EnvDecryptionError} If the file was encrypted with a different key
+ */
+export function assertEnvFileKey(content: string, key: string, filePath = '.env'): void {
+  const match = FINGERPRINT_PATTERN.exec(content);
+  const fingerprint = getKeyFingerprint(decodeKey(key));
+  if (match && match[1] !== fingerprint) {
+    throw new EnvDecryptionError(
+      filePath,
+      `it was encrypted with key ${match[1]}, but ${ENV_KEY_VARIABLE} is key ${fingerprint}`,
+    );
+  }
+}
+
+/**
+ * Quotes a value so parseEnvFile() reads it back unchanged.
+ */
+function formatEnvValue(value: string): string {
+  if (/^[^\s'"`#\\]*$/.test(value)) {
+    return value;
+  }
+  // Single and backtick quotes are literal
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  if (!value.includes('`')) {
+    return `\`${value}\``;
+  }
+  // Values with all three quote characters can't be written exactly; this is the closest form
+  return `"${value.replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`;
+}
+
+/**
+ * Encrypts every value of a .env file. Comments and formatting aren't kept.
+ *
+ * @param content - Plaintext .env content, or an encrypted file to re-encrypt
+ * @param key - Base64-encoded 32-byte key
+ * @param options - `previousKey` decrypts an encrypted file first, for key rotation
+ * @returns Content for `.env.<env>.encrypted`
+ * @throws {EnvParseError} If the content contains invalid syntax
+ * @throws {EnvDecryptionError} If `previousKey` can't decrypt the content
+ */
+export function encryptEnvFile(
+  content: string,
+  key: string,
+  options: { previousKey?: string; filePath?: string } = {},
+): string {
+  const { previousKey, filePath } = options;
+  const values = previousKey ? decryptEnvFile(content, previousKey, filePath) : parseValues(content, filePath);
+
+  const lines = [
+    '# Encrypted with next-env-guard-encrypt. Decrypt with next-env-guard-decrypt.',
+    `# next-env-guard-key: ${getKeyFingerprint(decodeKey(key))}`,
+  ];
+  for (const [name, value] of Object.entries(values)) {
+    lines.push(`${name}=${encryptEnvValue(name, value, key)}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Decrypts an encrypted .env file.
+ *
+ * @param content - Encrypted file content
+ * @param key - Base64-encoded 32-byte key
+ * @param filePath - File path, used in error messages
+ * @returns Decrypted values
+ * @throws {EnvDecryptionError} If the key is wrong or a value was modified
+ */
+export function decryptEnvFile(content: string, key: string, filePath?: string): Record<string, string> {
+  assertEnvFileKey(content, key, filePath);
+
+  const values: Record<string, string> = {};
+  for (const entry of parseEnvEntries(content, filePath)) {
+    values[entry.key] = decryptEnvValue(entry.key, entry.value, key, filePath);
+  }
+  return values;
+}
+
+/**
+ * Formats values as plaintext .env content.
+ *
+ * @param values - Variable names and values
+ * @returns .env content
+ */
+export function formatEnvFile(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([name, value]) => `${name}=${formatEnvValue(value)}\n`)
+    .join('');
+}
+
+/**
+ * Parses .env content into values.
+ */
+function parseValues(content: string, filePath?: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const entry of parseEnvEntries(content, filePath)) {
+    values[entry.key] = entry.value;
+  }
+  return values;
+}
@@ -0,0 +1,161 @@
+/**
+ * `.env.example` generation and drift checking.
+ * Keeps the committed example file in sync with the schemas passed to createEnv().
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { getEnvSchema } from '../core/schema-metadata';
+import type { EnvSchemaMetadata } from '../core/schema-metadata';
+import { parseEnvFile } from './env-loader';
+import { getSchemaDefault, getSchemaDescription } from './zod-introspect';
+
+/**
+ * Schemas to generate the example from: the records passed to createEnv(),
+ * or the object createEnv() returned.
+ */
+export type EnvExampleSource =
+  | {
+      server?: Record<string, ZodTypeAny>;
+      client?: Record<string, ZodTypeAny>;
+      shared?: Record<string, ZodTypeAny>;
+      namespace?: string;
+    }
+  | object;
+
+/**
+ * Result of comparing an existing `.env.example` against the schema.
+ */
+export interface EnvExampleDrift {
+  /**
+   * Keys declared in the schema but missing from the example file.
+   */
+  missing: string[];
+
+  /**
+   * Keys in the example file that the schema no longer declares.
+   */
+  stale: string[];
+}
+
+/**
+ * Resolves sources into a list of schema metadata.
+ */
+function toMetadataList(sources: EnvExampleSource | EnvExampleSource[]): EnvSchemaMetadata[] {
+  return (Array.isArray(sources) ? sources : [sources]).map((source) => {
+    const metadata = getEnvSchema(source);
+    if (metadata) {
+      return metadata;
+    }
+    const { server = {}, client = {}, shared = {}, namespace } = source as Partial<EnvSchemaMetadata>;
+    return { server, client, shared, namespace };
+  });
+}
+
+/**
+ * Formats a default value for a comment.
+ */
+function formatDefault(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(JSON.stringify(value) ?? value);
+}
+
+/**
+ * Renders the entry for a single variable.
+ */
+function renderEntry(key: string, schema: ZodTypeAny, side: 'server' | 'client' | 'shared'): string[] {
+  const lines: string[] = [];
+
+  const description = getSchemaDescription(schema);
+  if (description) {
+    for (const descriptionLine of description.split('\n')) {
+      lines.push(`# ${descriptionLine}`.trimEnd());
+    }
+  }
+
+  const details = [schema.isOptional() ? 'optional' : 'required'];
+  const defaultValue = getSchemaDefault(schema);
+  if (defaultValue) {
+    details.push(`default: ${formatDefault(defaultValue.value)}`);
+  }
+
+  lines.push(`# [${side}] ${details.join(', ')}`);
+  lines.push(`${key}=`);
+  return lines;
+}
+
+/**
+ * Generates the contents of a `.env.example` file from the schema.
+ * Every key is listed with its description, whether it is optional,
+ * its default and whether it is a server, client or shared variable. Values are left empty.
+ *
+ * @param sources - createEnv() configs or results
+ * @returns `.env.example` file contents
+ *
+ * @public
+ */
+export function generateEnvExample(sources: EnvExampleSource | EnvExampleSource[]): string {
+  const sections: string[][] = [];
+  const seenKeys = new Set<string>();
+
+  for (const metadata of toMetadataList(sources)) {
+    for (const side of ['server', 'client', 'shared'] as const) {
+      const schema = metadata[side];
+      const entries: string[] = [];
+
+      for (const key of Object.keys(schema)) {
+        if (seenKeys.has(key)) {
+          continue;
+        }
+        seenKeys.add(key);
+        if (entries.length > 0) {
+          entries.push('');
+        }
+        entries.push(...renderEntry(key, schema[key], side));
+      }
+
+      if (entries.length > 0) {
+        const title = {
+          server: 'Server variables',
+          client: 'Client variables (exposed to the browser)',
+          shared: 'Shared variables (exposed to the browser)',
+        }[side];
+        const namespace = metadata.namespace ? ` — namespace "${metadata.namespace}"` : '';
+        sections.push([`# ${title}${namespace}`, '', ...entries]);
+      }
+    }
+  }
+
+  const header = [
+    '# This file is generated by next-env-guard. Do not edit it by hand.',
+    '# Regenerate it with: next-env-guard-example',
+  ];
+
+  return [header, ...sections].map((section) => section.join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * Compares an existing `.env.example` against the schema.
+ *
+ * @param content - Contents of the existing `.env.example`
+ * @param sources - createEnv() configs or results
+ * @returns Keys missing from the file and keys the schema no longer declares
+ *
+ * @public
+ */
+export function checkEnvExample(
+  content: string,
+  sources: EnvExampleSource | EnvExampleSource[],
+): EnvExampleDrift {
+  const fileKeys = new Set(Object.keys(parseEnvFile(content)));
+  const schemaKeys = new Set<string>();
+
+  for (const metadata of toMetadataList(sources)) {
+    for (const key of [...Object.keys(metadata.server), ...Object.keys(metadata.client), ...Object.keys(metadata.shared)]) {
+      schemaKeys.add(key);
+    }
+  }
+
+  return {
+    missing: Array.from(schemaKeys).filter((key) => !fileKeys.has(key)),
+    stale: Array.from(fileKeys).filter((key) => !schemaKeys.has(key)),
+  };
+}
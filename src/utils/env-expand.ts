@@ -0,0 +1,207 @@
+/**
+ * Variable expansion for loaded .env files.
+ * Compatible with dotenv-expand, which Next.js uses:
+ * - `$VAR` and `${VAR}` are replaced with the variable's value (empty if unset)
+ * - `${VAR:-default}` uses the default when VAR is unset or empty
+ * - `${VAR-default}` uses the default only when VAR is unset
+ * - `\$` produces a literal `$`
+ * - Values already set in process.env take precedence over .env files
+ */
+
+import { EnvExpansionError } from '../core/errors';
+
+/**
+ * Values loaded from a single .env file.
+ */
+export interface EnvLayer {
+  filePath: string;
+  values: Record<string, string>;
+}
+
+/**
+ * A parsed `${...}` or `$VAR` reference.
+ */
+interface Reference {
+  name: string;
+  defaultValue?: string;
+  defaultWhenEmpty: boolean;
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_CHAR = /[A-Za-z0-9_]/;
+
+/**
+ * Parses the inside of a `${...}` reference, or returns null if it isn't a valid reference.
+ */
+function parseBracedReference(body: string): Reference | null {
+  let end = 0;
+  while (end < body.length && NAME_CHAR.test(body[end])) {
+    end++;
+  }
+  if (end === 0) {
+    return null;
+  }
+
+  const name = body.slice(0, end);
+  const rest = body.slice(end);
+
+  if (rest === '') {
+    return { name, defaultWhenEmpty: false };
+  }
+  if (rest.startsWith(':-')) {
+    return { name, defaultValue: rest.slice(2), defaultWhenEmpty: true };
+  }
+  if (rest.startsWith('-')) {
+    return { name, defaultValue: rest.slice(1), defaultWhenEmpty: false };
+  }
+  return null;
+}
+
+/**
+ * Finds the `}` matching the `{` at the given index, allowing nested references in defaults.
+ */
+function findClosingBrace(value: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < value.length; i++) {
+    if (value[i] === '{') {
+      depth++;
+    } else if (value[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Expands references in a single value.
+ *
+ * @param value - Raw value
+ * @param lookup - Resolves a variable name to its expanded value (undefined if unset)
+ * @returns Expanded value
+ */
+export function expandValue(value: string, lookup: (name: string) => string | undefined): string {
+  let result = '';
+  let i = 0;
+
+  while (i < value.length) {
+    const char = value[i];
+
+    // Escaped dollar sign
+    if (char === '\\' && value[i + 1] === '$') {
+      result += '$';
+      i += 2;
+      continue;
+    }
+
+    if (char !== '$') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    // ${VAR}, ${VAR:-default}, ${VAR-default}
+    if (value[i + 1] === '{') {
+      const closeIndex = findClosingBrace(value, i + 1);
+      const reference = closeIndex === -1 ? null : parseBracedReference(value.slice(i + 2, closeIndex));
+      if (!reference) {
+        result += char;
+        i++;
+        continue;
+      }
+
+      const resolved = lookup(reference.name);
+      const useDefault = reference.defaultValue !== undefined &&
+        (resolved === undefined || (reference.defaultWhenEmpty && resolved === ''));
+      result += useDefault ? expandValue(reference.defaultValue as string, lookup) : resolved ?? '';
+      i = closeIndex + 1;
+      continue;
+    }
+
+    // $VAR
+    if (NAME_START.test(value[i + 1] ?? '')) {
+      let end = i + 2;
+      while (end < value.length && NAME_CHAR.test(value[end])) {
+        end++;
+      }
+      result += lookup(value.slice(i + 1, end)) ?? '';
+      i = end;
+      continue;
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Merges .env layers and expands variable references in their values.
+ *
+ * Layers are given in load order (lowest priority first). A reference resolves to
+ * process.env if the variable is set there, otherwise to the highest-priority file
+ * that defines it. A variable that references itself (e.g. `PATH=$PATH:/extra` in
+ * .env.local) resolves to the value from the lower-priority files.
+ *
+ * @param layers - Values from each loaded file, lowest priority first
+ * @param processEnv - Environment whose values take precedence over the files
+ * @returns Merged and expanded values
+ * @throws {EnvExpansionError} If references form a cycle
+ */
+export function expandEnvLayers(
+  layers: EnvLayer[],
+  processEnv: NodeJS.ProcessEnv = process.env,
+): Record<string, string> {
+  // For each key, the layers that define it (ascending priority)
+  const definitions = new Map<string, number[]>();
+  layers.forEach((layer, layerIndex) => {
+    for (const key of Object.keys(layer.values)) {
+      const layerIndexes = definitions.get(key) || [];
+      layerIndexes.push(layerIndex);
+      definitions.set(key, layerIndexes);
+    }
+  });
+
+  const cache = new Map<string, string>();
+  const topLayer = layers.length - 1;
+
+  // Expands the value `name` has in a specific layer
+  const expandDefinition = (name: string, layerIndex: number, stack: string[]): string => {
+    const id = `${name}@${layerIndex}`;
+    const cached = cache.get(id);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    if (stack.includes(id)) {
+      const chain = stack.slice(stack.indexOf(id)).map((entry) => entry.slice(0, entry.lastIndexOf('@')));
+      throw new EnvExpansionError([...chain, name]);
+    }
+
+    const expanded = expandValue(layers[layerIndex].values[name], (reference) =>
+      resolve(reference, reference === name ? layerIndex - 1 : topLayer, [...stack, id]),
+    );
+    cache.set(id, expanded);
+    return expanded;
+  };
+
+  // Resolves a reference using process.env, then the highest definition at or below `maxLayer`
+  const resolve = (name: string, maxLayer: number, stack: string[]): string | undefined => {
+    if (Object.prototype.hasOwnProperty.call(processEnv, name) && processEnv[name] !== undefined) {
+      return processEnv[name];
+    }
+
+    const layerIndex = definitions.get(name)?.filter((index) => index <= maxLayer).pop();
+    return layerIndex === undefined ? undefined : expandDefinition(name, layerIndex, stack);
+  };
+
+  const result: Record<string, string> = {};
+  for (const [key, layerIndexes] of definitions) {
+    result[key] = expandDefinition(key, layerIndexes[layerIndexes.length - 1], []);
+  }
+
+  return result;
+}
@@ -5,13 +5,19 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseEnvEntries } from './env-parser';
+import { expandEnvLayers } from './env-expand';
+import { ENV_KEY_VARIABLE, assertEnvFileKey, decryptEnvValue, getEncryptedEnvFileName } from './env-crypto';
+import type { EnvLayer } from './env-expand';
+import type { EnvFileLocation, EnvVariableSource } from '../core/types';
 
 /**
  * Order of environment file loading (higher priority first):
  * 1. .env.development.local / .env.production.local
  * 2. .env.local (loaded in all environments except test)
- * 3. .env.development / .env.production / .env.test
- * 4. .env
+ * 3. .env.production.encrypted etc. (only with NEXT_ENV_GUARD_KEY)
+ * 4. .env.development / .env.production / .env.test
+ * 5. .env
  */
 export interface EnvFileLoadOptions {
   /**
@@ -31,100 +37,214 @@ export interface EnvFileLoadOptions {
    * @default true
    */
   loadLocal?: boolean;
+
+  /**
+   * Whether to expand `$VAR` / `${VAR}` references in values, as Next.js does.
+   * @default true
+   */
+  expand?: boolean;
+
+  /**
+   * The environment that takes precedence over .env files, both when
+   * resolving references and when merging in loadEnv().
+   * @default process.env
+   */
+  processEnv?: NodeJS.ProcessEnv;
+
+  /**
+   * Key for decrypting `.env.<nodeEnv>.encrypted`. The encrypted file is only
+   * loaded when a key is available.
+   * @default processEnv.NEXT_ENV_GUARD_KEY
+   */
+  decryptionKey?: string;
+}
+
+/**
+ * Loaded environment variables along with where each one came from.
+ */
+export interface EnvLoadResult<TEnv = Record<string, string>> {
+  env: TEnv;
+
+  /**
+   * Provenance of each loaded variable, keyed by variable name.
+   */
+  sources: Record<string, EnvVariableSource>;
+}
+
+/**
+ * Values loaded from a single .env file, with the line that set each one.
+ */
+interface LoadedEnvFile extends EnvLayer {
+  lines: Record<string, number>;
 }
 
 /**
  * Parses a .env file content into a key-value object.
+ * Follows dotenv's rules (multiline quoted values, escapes, inline comments, `export`).
+ * When a key appears more than once, the last value wins.
+ *
+ * @param content - Raw .env file content
+ * @param filePath - Optional file path, used in error messages
+ * @returns Parsed environment variables
+ * @throws {EnvParseError} If the content contains invalid syntax
  */
-function parseEnvFile(content: string): Record<string, string> {
+export function parseEnvFile(content: string, filePath?: string): Record<string, string> {
   const env: Record<string, string> = {};
-  const lines = content.split('\n');
-
-  for (const line of lines) {
-    // Skip empty lines and comments
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) {
-      continue;
-    }
 
-    // Parse KEY=VALUE or KEY="VALUE" or KEY='VALUE'
-    const match = trimmed.match(/^([^=]+)=(.*)$/);
-    if (match) {
-      const [, key, value] = match;
-      // Remove quotes if present
-      const unquotedValue = value.replace(/^["']|["']$/g, '');
-      env[key.trim()] = unquotedValue.trim();
-    }
+  for (const entry of parseEnvEntries(content, filePath)) {
+    env[entry.key] = entry.value;
   }
 
   return env;
 }
 
 /**
- * Loads a single .env file if it exists.
+ * Loads a single .env file if it exists, decrypting its values when given a key.
+ * Read errors are ignored, but syntax and decryption errors are thrown: a
+ * partially parsed file would silently drop or mangle values.
  */
-function loadEnvFile(filePath: string): Record<string, string> | null {
+function loadEnvFile(filePath: string, decryptionKey?: string): LoadedEnvFile | null {
+  let content: string;
+
   try {
-    if (fs.existsSync(filePath)) {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      return parseEnvFile(content);
+    if (!fs.existsSync(filePath)) {
+      return null;
     }
+    content = fs.readFileSync(filePath, 'utf-8');
   } catch (error) {
     // Silently fail if file doesn't exist or can't be read
     if (process.env.NODE_ENV === 'development') {
       console.warn(`⚠️  Warning: Could not load ${filePath}:`, error);
     }
+    return null;
   }
-  return null;
+
+  if (decryptionKey) {
+    assertEnvFileKey(content, decryptionKey, filePath);
+  }
+
+  const values: Record<string, string> = {};
+  const lines: Record<string, number> = {};
+  for (const entry of parseEnvEntries(content, filePath)) {
+    values[entry.key] = decryptionKey
+      ? decryptEnvValue(entry.key, entry.value, decryptionKey, filePath)
+      : entry.value;
+    lines[entry.key] = entry.line;
+  }
+
+  return { filePath, values, lines };
 }
 
 /**
- * Loads and merges environment files according to Next.js conventions.
- * Later files override earlier ones.
- * 
+ * Gets the names of the .env files loadEnvFiles() reads, lowest priority first.
+ * Files that don't exist are included.
+ *
  * @param options - Configuration options
- * @returns Merged environment variables
+ * @returns File names relative to `cwd`
  */
-export function loadEnvFiles(options: EnvFileLoadOptions = {}): Record<string, string> {
+export function getEnvFileNames(options: EnvFileLoadOptions = {}): string[] {
   const {
-    cwd = process.cwd(),
     nodeEnv = process.env.NODE_ENV || 'development',
     loadLocal = true,
+    processEnv = process.env,
+    decryptionKey = processEnv[ENV_KEY_VARIABLE],
   } = options;
 
-  const env: Record<string, string> = {};
-
   // Order of loading (later files override earlier ones)
-  const filesToLoad: string[] = [];
+  const fileNames: string[] = [];
 
   // 1. Base .env file
-  filesToLoad.push('.env');
+  fileNames.push('.env');
 
   // 2. Environment-specific .env file (e.g., .env.development)
   if (nodeEnv) {
-    filesToLoad.push(`.env.${nodeEnv}`);
+    fileNames.push(`.env.${nodeEnv}`);
+  }
+
+  // 2b. Encrypted environment-specific file (e.g., .env.production.encrypted), when a key is set
+  if (nodeEnv && decryptionKey) {
+    fileNames.push(getEncryptedEnvFileName(nodeEnv));
   }
 
   // 3. .env.local (skip in test environment)
   if (loadLocal && nodeEnv !== 'test') {
-    filesToLoad.push('.env.local');
+    fileNames.push('.env.local');
   }
 
   // 4. Environment-specific .env.local (e.g., .env.development.local)
   if (loadLocal && nodeEnv) {
-    filesToLoad.push(`.env.${nodeEnv}.local`);
+    fileNames.push(`.env.${nodeEnv}.local`);
   }
 
+  return fileNames;
+}
+
+/**
+ * Loads and merges environment files according to Next.js conventions.
+ * Later files override earlier ones, and variable references are expanded
+ * across files in the same priority order.
+ * 
+ * @param options - Configuration options
+ * @returns Merged environment variables
+ * @throws {EnvParseError} If a file contains invalid syntax
+ * @throws {EnvExpansionError} If variable references form a cycle
+ * @throws {EnvDecryptionError} If the encrypted file can't be decrypted with the key
+ */
+export function loadEnvFiles(options: EnvFileLoadOptions = {}): Record<string, string> {
+  return loadEnvFilesWithSources(options).env;
+}
+
+/**
+ * Like loadEnvFiles(), but also reports which file (and line) set each variable
+ * and which lower-priority definitions it overrode.
+ *
+ * @param options - Configuration options
+ * @returns Merged environment variables and their sources
+ * @throws {EnvParseError} If a file contains invalid syntax
+ * @throws {EnvExpansionError} If variable references form a cycle
+ * @throws {EnvDecryptionError} If the encrypted file can't be decrypted with the key
+ */
+export function loadEnvFilesWithSources(options: EnvFileLoadOptions = {}): EnvLoadResult {
+  const {
+    cwd = process.cwd(),
+    nodeEnv = process.env.NODE_ENV || 'development',
+    expand = true,
+    processEnv = process.env,
+    decryptionKey = processEnv[ENV_KEY_VARIABLE],
+  } = options;
+
+  const layers: LoadedEnvFile[] = [];
+  const filesToLoad = getEnvFileNames(options);
+  const encryptedFile = nodeEnv && decryptionKey ? getEncryptedEnvFileName(nodeEnv) : undefined;
+
   // Load files in order (later files override earlier ones)
   for (const fileName of filesToLoad) {
     const filePath = path.join(cwd, fileName);
-    const fileEnv = loadEnvFile(filePath);
+    const fileEnv = loadEnvFile(filePath, fileName === encryptedFile ? decryptionKey : undefined);
     if (fileEnv) {
-      Object.assign(env, fileEnv);
+      layers.push(fileEnv);
     }
   }
 
-  return env;
+  const env: Record<string, string> = expand
+    ? expandEnvLayers(layers, processEnv)
+    : Object.assign({}, ...layers.map((layer) => layer.values));
+
+  // Walk layers from highest priority down: the first definition wins, the rest are overridden
+  const sources: Record<string, EnvVariableSource> = {};
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const { filePath, lines } = layers[i];
+    for (const [key, line] of Object.entries(lines)) {
+      const source = sources[key];
+      if (source) {
+        source.overrides.push({ filePath, line });
+      } else {
+        sources[key] = { origin: 'file', filePath, line, overrides: [] };
+      }
+    }
+  }
+
+  return { env, sources };
 }
 
 /**
@@ -135,11 +255,38 @@ export function loadEnvFiles(options: EnvFileLoadOptions = {}): Record<string, s
  * @returns Merged environment variables
  */
 export function loadEnv(options: EnvFileLoadOptions = {}): NodeJS.ProcessEnv {
-  const fileEnv = loadEnvFiles(options);
-  
+  return loadEnvWithSources(options).env;
+}
+
+/**
+ * Like loadEnv(), but also reports where each variable came from.
+ * Variables set in process.env are attributed to it, overriding any .env definitions.
+ *
+ * @param options - Configuration options
+ * @returns Merged environment variables and their sources
+ */
+export function loadEnvWithSources(options: EnvFileLoadOptions = {}): EnvLoadResult<NodeJS.ProcessEnv> {
+  const processEnv = options.processEnv ?? process.env;
+  const { env: fileEnv, sources } = loadEnvFilesWithSources(options);
+
+  for (const [key, value] of Object.entries(processEnv)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const fileSource = sources[key];
+    const overrides: EnvFileLocation[] = fileSource
+      ? [{ filePath: fileSource.filePath as string, line: fileSource.line as number }, ...fileSource.overrides]
+      : [];
+    sources[key] = { origin: 'process.env', overrides };
+  }
+
   // Merge with process.env (process.env takes priority)
   return {
-    ...fileEnv,
-    ...process.env,
+    env: {
+      ...fileEnv,
+      ...processEnv,
+    },
+    sources,
   };
 }
@@ -0,0 +1,193 @@
+/**
+ * .env file parser.
+ * Follows dotenv's rules so values match what Next.js loads:
+ * - `KEY=VALUE` and `KEY: VALUE`, with an optional `export ` prefix
+ * - Double-quoted values may span lines; `\n` and `\r` escapes are expanded only inside them
+ * - Single-quoted and backtick-quoted values are literal and may span lines
+ * - Unquoted values end at `#` (inline comment) and are trimmed
+ * - CRLF and CR line endings are normalized
+ */
+
+import { EnvParseError } from '../core/errors';
+
+/**
+ * A single variable parsed from a .env file.
+ */
+export interface EnvFileEntry {
+  key: string;
+  value: string;
+
+  /**
+   * 1-based line of the variable name.
+   */
+  line: number;
+
+  /**
+   * 1-based column of the variable name.
+   */
+  column: number;
+
+  /**
+   * Quote character the value was wrapped in, or null if unquoted.
+   */
+  quote: '"' | "'" | '`' | null;
+}
+
+const KEY_CHAR = /[A-Za-z0-9_.-]/;
+const QUOTE_NAMES: Record<string, string> = {
+  '"': 'double',
+  "'": 'single',
+  '`': 'backtick',
+};
+
+/**
+ * Checks whether a character is inline whitespace (not a line break).
+ */
+function isInlineSpace(char: string | undefined): boolean {
+  return char === ' ' || char === '\t' || char === '\f' || char === '\v';
+}
+
+/**
+ * Parses .env file content into a list of entries, in file order.
+ * Duplicate keys are kept; callers decide which one wins.
+ *
+ * @param content - Raw .env file content
+ * @param filePath - Optional file path, used in error messages
+ * @returns Parsed entries with their positions
+ * @throws {EnvParseError} If the content contains invalid syntax
+ */
+export function parseEnvEntries(content: string, filePath?: string): EnvFileEntry[] {
+  const source = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const length = source.length;
+  const entries: EnvFileEntry[] = [];
+
+  // Track line starts so offsets can be turned into line/column positions
+  const lineStarts = [0];
+  for (let i = 0; i < length; i++) {
+    if (source[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const positionAt = (offset: number): { line: number; column: number } => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+
+  const fail = (reason: string, offset: number): never => {
+    const { line, column } = positionAt(offset);
+    throw new EnvParseError(reason, line, column, filePath);
+  };
+
+  const skipInlineSpace = (offset: number): number => {
+    while (offset < length && isInlineSpace(source[offset])) {
+      offset++;
+    }
+    return offset;
+  };
+
+  const skipToLineEnd = (offset: number): number => {
+    while (offset < length && source[offset] !== '\n') {
+      offset++;
+    }
+    return offset;
+  };
+
+  let i = 0;
+  while (i < length) {
+    const char = source[i];
+
+    // Blank lines and indentation
+    if (char === '\n' || isInlineSpace(char)) {
+      i++;
+      continue;
+    }
+
+    // Full-line comments
+    if (char === '#') {
+      i = skipToLineEnd(i);
+      continue;
+    }
+
+    // Optional `export ` prefix
+    if (source.startsWith('export', i) && isInlineSpace(source[i + 6])) {
+      i = skipInlineSpace(i + 6);
+    }
+
+    // Variable name
+    const keyStart = i;
+    while (i < length && KEY_CHAR.test(source[i])) {
+      i++;
+    }
+    if (i === keyStart) {
+      fail(`Unexpected character ${JSON.stringify(source[i] ?? '')}, expected a variable name`, i);
+    }
+    const key = source.slice(keyStart, i);
+
+    // Separator
+    i = skipInlineSpace(i);
+    if (source[i] !== '=' && source[i] !== ':') {
+      fail(`Expected "=" after "${key}"`, i);
+    }
+    i = skipInlineSpace(i + 1);
+
+    const { line, column } = positionAt(keyStart);
+    const quote = source[i];
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      const openingQuote = i;
+      i++;
+
+      // Quoted values may span lines; an escaped quote doesn't end the value
+      let raw = '';
+      while (i < length && source[i] !== quote) {
+        if (source[i] === '\\' && source[i + 1] === quote) {
+          raw += source[i] + source[i + 1];
+          i += 2;
+          continue;
+        }
+        raw += source[i];
+        i++;
+      }
+
+      if (i >= length) {
+        fail(`Unterminated ${QUOTE_NAMES[quote]}-quoted value for "${key}"`, openingQuote);
+      }
+      i++;
+
+      // Only whitespace or a comment may follow the closing quote
+      i = skipInlineSpace(i);
+      if (i < length && source[i] !== '\n' && source[i] !== '#') {
+        fail(`Unexpected character ${JSON.stringify(source[i])} after closing quote of "${key}"`, i);
+      }
+      i = skipToLineEnd(i);
+
+      const value = quote === '"'
+        ? raw.replace(/\\n/g, '\n').replace(/\\r/g, '\r')
+        : raw;
+      entries.push({ key, value, line, column, quote });
+      continue;
+    }
+
+    // Unquoted values end at an inline comment or the end of the line
+    const valueStart = i;
+    while (i < length && source[i] !== '\n' && source[i] !== '#') {
+      i++;
+    }
+    const value = source.slice(valueStart, i).trim();
+    i = skipToLineEnd(i);
+
+    entries.push({ key, value, line, column, quote: null });
+  }
+
+  return entries;
+}
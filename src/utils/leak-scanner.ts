@@ -0,0 +1,294 @@
+/**
+ * Static scanner for server environment variables referenced from client code.
+ * Starts from client entry points ('use client' modules and Pages Router pages),
+ * follows their imports and reports reads of server schema keys through the
+ * env object or process.env.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  findImports,
+  findPropertyReads,
+  getDirectives,
+  getPosition,
+  maskSource,
+} from './source-scanner';
+import type { PropertyRead } from './source-scanner';
+import { SOURCE_EXTENSIONS, collectSourceFiles, loadPathAliases, resolveImport } from './source-files';
+
+/**
+ * Options for scanForEnvLeaks.
+ */
+export interface EnvLeakScanOptions {
+  /**
+   * Project root to scan.
+   */
+  root: string;
+
+  /**
+   * Keys declared in the `server` schema.
+   */
+  serverKeys: Iterable<string>;
+
+  /**
+   * Path to the env module that calls createEnv(). Reads through its `env`
+   * export are checked, and the module itself isn't scanned.
+   */
+  schemaPath?: string;
+}
+
+/**
+ * A server variable read from client code.
+ */
+export interface EnvLeak {
+  key: string;
+  filePath: string;
+  line: number;
+  column: number;
+
+  /**
+   * How the variable was read.
+   */
+  via: 'env' | 'process.env';
+
+  /**
+   * Client entry point followed by the imports that lead to the file.
+   */
+  importChain: string[];
+}
+
+/**
+ * Result of scanForEnvLeaks.
+ */
+export interface EnvLeakScanResult {
+  /**
+   * Client entry points that were found.
+   */
+  entries: string[];
+
+  /**
+   * Number of modules reachable from the entry points.
+   */
+  scannedFiles: number;
+
+  leaks: EnvLeak[];
+}
+
+const PROCESS_ENV = 'process\\s*\\.\\s*env';
+const PAGES_DIRECTORIES = ['pages', path.join('src', 'pages')];
+const SERVER_DATA_FUNCTIONS = /\bexport\s+(?:async\s+)?(?:function\s*\*?\s*|const\s+)(getServerSideProps|getStaticProps|getStaticPaths)\b/g;
+
+/**
+ * Finds the bracket matching the one at openIndex in masked source.
+ */
+function findClosingBracket(masked: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    const char = masked[i];
+    if (char === '(' || char === '[' || char === '{') {
+      depth++;
+    } else if (char === ')' || char === ']' || char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return masked.length - 1;
+}
+
+/**
+ * Finds the bodies of getServerSideProps/getStaticProps/getStaticPaths in a page.
+ * Next.js removes these (and imports only they use) from the client bundle.
+ */
+function findServerDataRanges(masked: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  for (const match of masked.matchAll(SERVER_DATA_FUNCTIONS)) {
+    const start = match.index as number;
+    let i = start + match[0].length;
+
+    // Skip the parameter list (which may contain destructuring braces) to reach the body
+    while (i < masked.length && masked[i] !== '(' && masked[i] !== '{' && masked[i] !== ';') {
+      i++;
+    }
+    if (masked[i] === '(') {
+      i = findClosingBracket(masked, i) + 1;
+      const arrow = /^\s*(?::[^={]*)?(=>)?\s*/.exec(masked.slice(i));
+      i += arrow ? arrow[0].length : 0;
+    }
+
+    const end = masked[i] === '{' ? findClosingBracket(masked, i) : masked.indexOf('\n', i);
+    ranges.push([start, end === -1 ? masked.length : end + 1]);
+  }
+
+  return ranges;
+}
+
+/**
+ * Checks whether a file is a Pages Router page (not an API route or _document).
+ */
+function isPagesEntry(root: string, filePath: string): boolean {
+  return PAGES_DIRECTORIES.some((directory) => {
+    const relative = path.relative(path.join(root, directory), filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      return false;
+    }
+    const [first] = relative.split(path.sep);
+    return first !== 'api' && !/^_document\./.test(first) && !/^middleware\./.test(first);
+  });
+}
+
+/**
+ * Escapes a string for use in a regular expression.
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds keys read from the env object, including destructuring (`const { KEY } = env`).
+ */
+function findEnvObjectReads(source: string, masked: string, envLocals: string[], namespaceLocals: string[]): PropertyRead[] {
+  const objects = [
+    ...envLocals.map(escapeRegExp),
+    ...namespaceLocals.map((local) => `${escapeRegExp(local)}\\s*\\.\\s*env`),
+  ];
+  if (objects.length === 0) {
+    return [];
+  }
+
+  const reads = findPropertyReads(source, masked, objects.join('|'));
+  const destructuring = new RegExp(`\\{([^{}]*)\\}\\s*=\\s*(?:${objects.join('|')})(?![\\w$.?\\[])`, 'g');
+  for (const match of masked.matchAll(destructuring)) {
+    const start = match.index as number;
+    for (const property of match[1].split(',')) {
+      const key = /^\s*(?:\.\.\.)?\s*([A-Za-z_$][\w$]*)/.exec(property);
+      if (key && !property.trim().startsWith('...')) {
+        reads.push({ key: key[1], start, end: start + match[0].length });
+      }
+    }
+  }
+
+  return reads;
+}
+
+/**
+ * Scans client code for reads of server environment variables.
+ *
+ * @param options - Project root, server keys and env module
+ * @returns Client entry points and the leaks found
+ */
+export function scanForEnvLeaks(options: EnvLeakScanOptions): EnvLeakScanResult {
+  const root = path.resolve(options.root);
+  const serverKeys = new Set(options.serverKeys);
+  const schemaPath = options.schemaPath && path.resolve(options.schemaPath);
+  const aliases = loadPathAliases(root);
+
+  const sources = new Map<string, { source: string; masked: string }>();
+  const read = (filePath: string) => {
+    let entry = sources.get(filePath);
+    if (!entry) {
+      const source = fs.readFileSync(filePath, 'utf-8');
+      entry = { source, masked: maskSource(source) };
+      sources.set(filePath, entry);
+    }
+    return entry;
+  };
+
+  // Client entry points
+  const entries = collectSourceFiles(root).filter((filePath) => {
+    if (filePath === schemaPath) {
+      return false;
+    }
+    return getDirectives(read(filePath).source).includes('use client') || isPagesEntry(root, filePath);
+  });
+
+  // Breadth-first walk of the client module graph, remembering how each module was reached
+  const parents = new Map<string, string | null>(entries.map((entry) => [entry, null]));
+  const queue = [...entries];
+  const leaks: EnvLeak[] = [];
+
+  const chainTo = (filePath: string): string[] => {
+    const chain: string[] = [];
+    for (let current: string | null | undefined = filePath; current; current = parents.get(current)) {
+      chain.unshift(path.relative(root, current));
+    }
+    return chain;
+  };
+
+  while (queue.length > 0) {
+    const filePath = queue.shift() as string;
+    const { source, masked } = read(filePath);
+    const serverRanges = isPagesEntry(root, filePath) ? findServerDataRanges(masked) : [];
+    const inServerCode = (offset: number) => serverRanges.some(([start, end]) => offset >= start && offset < end);
+
+    const envLocals: string[] = [];
+    const namespaceLocals: string[] = [];
+
+    for (const moduleImport of findImports(source, masked)) {
+      const resolved = resolveImport(moduleImport.specifier, filePath, aliases);
+
+      if (resolved && resolved === schemaPath) {
+        for (const { imported, local } of moduleImport.bindings) {
+          if (imported === 'env') envLocals.push(local);
+          if (imported === '*') namespaceLocals.push(local);
+        }
+        continue;
+      }
+
+      if (!resolved || !SOURCE_EXTENSIONS.includes(path.extname(resolved)) || parents.has(resolved)) {
+        continue;
+      }
+
+      // Imports only used by getServerSideProps & co. don't reach the client bundle
+      if (serverRanges.length > 0 && moduleImport.bindings.length > 0) {
+        const usedOnClient = moduleImport.bindings.some(({ local }) => {
+          const usage = new RegExp(`(?<![\\w$.])${escapeRegExp(local)}(?![\\w$])`, 'g');
+          return Array.from(masked.matchAll(usage)).some(({ index }) => {
+            const offset = index as number;
+            return (offset < moduleImport.start || offset >= moduleImport.end) && !inServerCode(offset);
+          });
+        });
+        if (!usedOnClient) {
+          continue;
+        }
+      }
+
+      // Server actions and server-only modules never run in the browser
+      const { source: importedSource } = read(resolved);
+      if (getDirectives(importedSource).includes('use server') || /(['"])server-only\1/.test(importedSource)) {
+        continue;
+      }
+
+      parents.set(resolved, filePath);
+      queue.push(resolved);
+    }
+
+    const report = (reads: PropertyRead[], via: EnvLeak['via']) => {
+      for (const { key, start } of reads) {
+        if (serverKeys.has(key) && !inServerCode(start)) {
+          leaks.push({
+            key,
+            filePath: path.relative(root, filePath),
+            ...getPosition(source, start),
+            via,
+            importChain: chainTo(filePath),
+          });
+        }
+      }
+    };
+
+    report(findEnvObjectReads(source, masked, envLocals, namespaceLocals), 'env');
+    report(findPropertyReads(source, masked, PROCESS_ENV), 'process.env');
+  }
+
+  leaks.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line || a.column - b.column);
+
+  return {
+    entries: entries.map((entry) => path.relative(root, entry)),
+    scannedFiles: parents.size,
+    leaks,
+  };
+}
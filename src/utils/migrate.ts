@@ -2,93 +2,281 @@
  * Migration utilities for migrating from other environment variable solutions.
  */
 
+import * as fs from 'fs';
+import { loadEnvFilesWithSources, parseEnvFile } from './env-loader';
+import { DEFAULT_CLIENT_PREFIX } from '../core/validator';
+
 /**
  * Configuration for dotenv migration.
  */
 export interface DotenvMigrationConfig {
   /**
-   * Path to .env file (defaults to .env in current directory).
+   * Path to a .env file, or to the directory containing the project's .env files
+   * (defaults to the current directory). For a directory, every file Next.js
+   * would load in development, production and test is read.
    */
   envPath?: string;
 
   /**
-   * Whether to include optional variables in the schema.
+   * Whether to mark variables that are empty in some .env files as optional.
    * @default false
    */
   includeOptional?: boolean;
 }
 
 /**
- * Migrates from dotenv-style .env file to next-env-guard schema.
- * Reads the .env file and generates a Zod schema.
- * 
- * @param config - Migration configuration
- * @returns Generated schema code as a string
+ * A variable inferred from .env files.
  */
-export function migrateFromDotenv(config: DotenvMigrationConfig = {}): string {
-  const { envPath = '.env', includeOptional = false } = config;
+export interface InferredEnvVariable {
+  key: string;
 
-  // This would require fs access, so we provide a template
-  // In practice, users would run this in a Node.js script
-  const template = `
-// Migration from dotenv to next-env-guard
-// Run this script to generate your schema:
+  /**
+   * Zod schema source code, e.g. `z.string().url()`.
+   */
+  schema: string;
 
-import { readFileSync } from 'fs';
-import { createEnv } from 'next-env-guard';
-import { z } from 'zod';
+  /**
+   * 'client' for variables with the client prefix, 'server' otherwise.
+   */
+  scope: 'server' | 'client';
+}
 
-// Read your .env file
-const envContent = readFileSync('${envPath}', 'utf-8');
+/**
+ * Values per variable, as returned by collectEnvSamples().
+ */
+export type EnvSamples = Map<string, string[]> & {
+  /**
+   * Variables with a value from a `.local` file. Those files hold personal
+   * values and secrets, so their values are never written as enum literals.
+   */
+  localKeys?: Set<string>;
+};
+
+const ENVIRONMENTS = ['development', 'production', 'test'];
+const MAX_ENUM_VALUES = 10;
+const MAX_ENUM_VALUE_LENGTH = 16;
+// Shannon entropy of the whole value, in bits; "development" is ~33, random tokens are far above
+const MAX_ENUM_VALUE_ENTROPY = 40;
+
+const INTEGER = /^-?\d+$/;
+const URL_PATTERN = /^[a-z][a-z0-9+.-]*:\/\/\S+$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ENUM_VALUE = /^[A-Za-z][\w.-]*$/;
+const PORT_KEY = /(^|_)PORT$/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+const SECRET_KEY = /(^|_)(KEY|SECRET|TOKEN)S?$|PASSWORD|PASSWD/;
 
-// Parse environment variables
-const envVars: Record<string, string> = {};
-const lines = envContent.split('\\n');
-for (const line of lines) {
-  const trimmed = line.trim();
-  if (!trimmed || trimmed.startsWith('#')) continue;
-  const match = trimmed.match(/^([^=]+)=(.*)$/);
-  if (match) {
-    const [, key, value] = match;
-    envVars[key.trim()] = value.trim();
+/**
+ * Checks whether a value parses as a JSON object or array.
+ */
+function isJson(value: string): boolean {
+  if (!/^\s*[[{]/.test(value)) {
+    return false;
+  }
+  try {
+    JSON.parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether a value is short and predictable enough to be written to
+ * the generated file as an enum option, like "debug" or "production".
+ */
+function isEnumLiteral(value: string): boolean {
+  if (value.length > MAX_ENUM_VALUE_LENGTH || !ENUM_VALUE.test(value)) {
+    return false;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    entropy -= count * Math.log2(count / value.length);
+  }
+  return entropy <= MAX_ENUM_VALUE_ENTROPY;
+}
+
+/**
+ * Infers a Zod schema for a variable from the values it has across .env files.
+ * Values are only written to the schema as enum options for variables that
+ * don't look secret (`*_KEY`, `*_SECRET`, `*_TOKEN`, `*PASSWORD*`), and only
+ * when every value is short and low-entropy.
+ *
+ * @param key - Variable name (used to recognize ports and secrets)
+ * @param values - Distinct non-empty values seen for the variable
+ * @param allowEnum - Whether the values may become enum options
+ * @returns Zod schema source code
+ */
+export function inferZodSchema(key: string, values: string[], allowEnum: boolean = true): string {
+  if (values.length === 0) {
+    return 'z.string()';
+  }
+
+  const all = (test: (value: string) => boolean) => values.every(test);
+
+  if (all((value) => value === 'true' || value === 'false')) {
+    return "z.enum(['true', 'false']).transform((value) => value === 'true')";
+  }
+  if (PORT_KEY.test(key) && all((value) => INTEGER.test(value) && Number(value) >= 0 && Number(value) <= 65535)) {
+    return 'z.coerce.number().int().min(0).max(65535)';
+  }
+  if (all((value) => INTEGER.test(value))) {
+    return 'z.coerce.number().int()';
+  }
+  if (all((value) => URL_PATTERN.test(value))) {
+    return 'z.string().url()';
+  }
+  if (all((value) => EMAIL.test(value))) {
+    return 'z.string().email()';
+  }
+  if (all(isJson)) {
+    return "z.string().refine((value) => { try { JSON.parse(value); return true; } catch { return false; } }, 'Invalid JSON').transform((value) => JSON.parse(value))";
+  }
+  if (
+    allowEnum &&
+    !SECRET_KEY.test(key) &&
+    values.length > 1 &&
+    values.length <= MAX_ENUM_VALUES &&
+    all(isEnumLiteral)
+  ) {
+    return `z.enum([${values.map((value) => `'${value}'`).join(', ')}])`;
   }
+
+  return 'z.string()';
 }
 
-// Generate schema
-const serverSchema: Record<string, any> = {};
-const clientSchema: Record<string, any> = {};
+/**
+ * Checks whether a path is a `.env.local` or `.env.<environment>.local` file.
+ */
+function isLocalEnvFile(filePath: string): boolean {
+  return filePath.endsWith('.local');
+}
 
-for (const [key, value] of Object.entries(envVars)) {
-  // Detect type from value
-  let schema = z.string();
-  
-  if (value === 'true' || value === 'false') {
-    schema = z.string().transform((val) => val === 'true');
-  } else if (!isNaN(Number(value)) && value.trim() !== '') {
-    schema = z.string().transform(Number);
-  } else if (value.startsWith('http://') || value.startsWith('https://')) {
-    schema = z.string().url();
-  } else if (value.trim() === '' && ${includeOptional}) {
-    schema = z.string().optional();
+/**
+ * Collects the distinct values each variable has across the project's .env files.
+ * Values are loaded once per environment, so a variable that differs between
+ * .env.development and .env.production yields both values.
+ *
+ * @param envPath - A .env file, or the directory containing the .env files
+ * @returns Values per variable, in the order variables were first seen
+ */
+export function collectEnvSamples(envPath: string = process.cwd()): EnvSamples {
+  const samples: EnvSamples = new Map<string, string[]>();
+  const localKeys = new Set<string>();
+  samples.localKeys = localKeys;
+  const add = (env: Record<string, string>, local: (key: string) => boolean) => {
+    for (const [key, value] of Object.entries(env)) {
+      if (local(key)) {
+        localKeys.add(key);
+      }
+      const values = samples.get(key) || [];
+      if (!values.includes(value)) {
+        values.push(value);
+      }
+      samples.set(key, values);
+    }
+  };
+
+  if (fs.existsSync(envPath) && fs.statSync(envPath).isFile()) {
+    const local = isLocalEnvFile(envPath);
+    add(parseEnvFile(fs.readFileSync(envPath, 'utf-8'), envPath), () => local);
+    return samples;
   }
 
-  // Determine if server or client
-  if (key.startsWith('NEXT_PUBLIC_')) {
-    clientSchema[key] = schema;
-  } else {
-    serverSchema[key] = schema;
+  // Ignore the shell environment so only values from the files are sampled
+  for (const nodeEnv of ENVIRONMENTS) {
+    const { env, sources } = loadEnvFilesWithSources({ cwd: envPath, nodeEnv, processEnv: {} as NodeJS.ProcessEnv });
+    add(env, (key) => {
+      const filePath = sources[key]?.filePath;
+      return filePath !== undefined && isLocalEnvFile(filePath);
+    });
   }
+
+  return samples;
 }
 
-// Export the env object
-export const env = createEnv({
-  server: serverSchema,
-  client: clientSchema,
-  runtimeEnv: process.env,
-});
-`;
+/**
+ * Infers a schema for every variable found in the .env files.
+ *
+ * @param samples - Values per variable, as returned by collectEnvSamples()
+ * @param includeOptional - Whether variables that are empty somewhere become optional
+ * @param clientPrefix - Prefix that marks client variables
+ * @returns Inferred variables, in the order they were first seen
+ */
+export function inferEnvSchema(
+  samples: EnvSamples,
+  includeOptional: boolean = false,
+  clientPrefix: string = DEFAULT_CLIENT_PREFIX,
+): InferredEnvVariable[] {
+  return Array.from(samples, ([key, values]) => {
+    const nonEmpty = values.filter((value) => value !== '');
+    let schema = inferZodSchema(key, nonEmpty, !samples.localKeys?.has(key));
+    if (includeOptional && nonEmpty.length < values.length) {
+      schema += '.optional()';
+    }
+    return {
+      key,
+      schema,
+      scope: key.startsWith(clientPrefix) ? 'client' : 'server',
+    };
+  });
+}
+
+/**
+ * Generates the source of an env.ts / env.mjs file that calls createEnv().
+ * The output is valid as both TypeScript and JavaScript.
+ *
+ * @param variables - Inferred variables
+ * @param clientPrefix - Client prefix, written to the file unless it is the default
+ * @returns Schema file source
+ */
+export function generateEnvSchemaFile(
+  variables: InferredEnvVariable[],
+  clientPrefix: string = DEFAULT_CLIENT_PREFIX,
+): string {
+  const lines = [
+    '// Generated by next-env-guard-init from your .env files.',
+    '// Review the inferred types before committing.',
+    "import { createEnv } from 'next-env-guard';",
+    "import { z } from 'zod';",
+    '',
+    'export const env = createEnv({',
+  ];
+
+  for (const scope of ['server', 'client'] as const) {
+    const scoped = variables.filter((variable) => variable.scope === scope);
+    if (scoped.length === 0) {
+      continue;
+    }
+    lines.push(`  ${scope}: {`);
+    for (const { key, schema } of scoped) {
+      lines.push(`    ${IDENTIFIER.test(key) ? key : JSON.stringify(key)}: ${schema},`);
+    }
+    lines.push('  },');
+  }
 
-  return template;
+  if (clientPrefix !== DEFAULT_CLIENT_PREFIX) {
+    lines.push(`  clientPrefix: ${JSON.stringify(clientPrefix)},`);
+  }
+  lines.push('  runtimeEnv: process.env,', '});', '');
+  return lines.join('\n');
+}
+
+/**
+ * Migrates from dotenv-style .env files to a next-env-guard schema.
+ * Reads the .env files and infers a Zod schema for each variable.
+ * 
+ * @param config - Migration configuration
+ * @returns Generated schema code as a string
+ */
+export function migrateFromDotenv(config: DotenvMigrationConfig = {}): string {
+  const { envPath = process.cwd(), includeOptional = false } = config;
+  return generateEnvSchemaFile(inferEnvSchema(collectEnvSamples(envPath), includeOptional));
 }
 
 /**
@@ -136,6 +324,8 @@ export default function RootLayout({ children }) {
 
 /**
  * Generates a migration script that can be run to help migrate.
+ *
+ * @deprecated Run `next-env-guard-init`, which writes the schema file directly.
  */
 export function generateMigrationScript(): string {
   return `
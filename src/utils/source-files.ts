@@ -0,0 +1,179 @@
+/**
+ * Project source file discovery and module resolution for the CLI tools.
+ * Resolves relative imports and tsconfig/jsconfig `paths` aliases (e.g. `@/env`);
+ * packages in node_modules are never resolved.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.next', '.git', 'dist', 'build', 'out', 'coverage']);
+
+/**
+ * Path aliases from tsconfig.json / jsconfig.json.
+ */
+export interface PathAliases {
+  baseUrl: string;
+  paths: Record<string, string[]>;
+}
+
+/**
+ * Recursively collects source files under a path.
+ * Declaration files and build/dependency directories are skipped.
+ *
+ * @param target - File or directory
+ * @param files - Array to append to
+ * @returns Absolute paths of the source files found
+ */
+export function collectSourceFiles(target: string, files: string[] = []): string[] {
+  const stat = fs.statSync(target);
+
+  if (stat.isFile()) {
+    if (SOURCE_EXTENSIONS.includes(path.extname(target)) && !target.endsWith('.d.ts')) {
+      files.push(path.resolve(target));
+    }
+    return files;
+  }
+
+  for (const entry of fs.readdirSync(target)) {
+    if (!IGNORED_DIRECTORIES.has(entry)) {
+      collectSourceFiles(path.join(target, entry), files);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads `compilerOptions.paths` from tsconfig.json or jsconfig.json in a directory.
+ *
+ * @param root - Project root
+ * @returns Path aliases, or null if neither file defines them
+ */
+export function loadPathAliases(root: string): PathAliases | null {
+  for (const fileName of ['tsconfig.json', 'jsconfig.json']) {
+    const configPath = path.join(root, fileName);
+    if (!fs.existsSync(configPath)) {
+      continue;
+    }
+
+    try {
+      const json = stripJsonComments(fs.readFileSync(configPath, 'utf-8'));
+      const compilerOptions = JSON.parse(json).compilerOptions || {};
+      if (compilerOptions.paths) {
+        return {
+          baseUrl: path.resolve(root, compilerOptions.baseUrl || '.'),
+          paths: compilerOptions.paths,
+        };
+      }
+    } catch {
+      // Ignore unparseable config files
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Removes comments and trailing commas from JSONC (as used by tsconfig.json).
+ */
+function stripJsonComments(content: string): string {
+  let json = '';
+  let i = 0;
+
+  while (i < content.length) {
+    if (content[i] === '"') {
+      let end = i + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      json += content.slice(i, end + 1);
+      i = end + 1;
+    } else if (content.startsWith('//', i)) {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else {
+      json += content[i];
+      i++;
+    }
+  }
+
+  return json.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Resolves a file path by trying source extensions and index files.
+ */
+function resolveFile(candidate: string): string | null {
+  if (fs.existsSync(candidate) && fs.statSync(candidate).isFile()) {
+    return candidate;
+  }
+
+  // `./foo.js` may refer to `./foo.ts` in TypeScript projects
+  const withoutExtension = SOURCE_EXTENSIONS.includes(path.extname(candidate))
+    ? candidate.slice(0, -path.extname(candidate).length)
+    : candidate;
+
+  for (const extension of SOURCE_EXTENSIONS) {
+    if (fs.existsSync(withoutExtension + extension)) {
+      return withoutExtension + extension;
+    }
+  }
+  for (const extension of SOURCE_EXTENSIONS) {
+    const indexFile = path.join(candidate, `index${extension}`);
+    if (fs.existsSync(indexFile)) {
+      return indexFile;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves an import specifier to a project file.
+ *
+ * @param specifier - Import specifier, e.g. `./utils` or `@/env`
+ * @param fromFile - File containing the import
+ * @param aliases - Path aliases from tsconfig.json
+ * @returns Absolute file path, or null for packages and unresolvable imports
+ */
+export function resolveImport(specifier: string, fromFile: string, aliases: PathAliases | null): string | null {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return resolveFile(path.resolve(path.dirname(fromFile), specifier));
+  }
+
+  if (!aliases) {
+    return null;
+  }
+
+  for (const [pattern, targets] of Object.entries(aliases.paths)) {
+    const wildcard = pattern.indexOf('*');
+    let rest: string | null = null;
+    if (wildcard === -1) {
+      rest = specifier === pattern ? '' : null;
+    } else if (
+      specifier.startsWith(pattern.slice(0, wildcard)) &&
+      specifier.endsWith(pattern.slice(wildcard + 1)) &&
+      specifier.length >= pattern.length - 1
+    ) {
+      rest = specifier.slice(wildcard, specifier.length - (pattern.length - wildcard - 1));
+    }
+    if (rest === null) {
+      continue;
+    }
+
+    for (const target of targets) {
+      const resolved = resolveFile(path.resolve(aliases.baseUrl, target.replace('*', rest)));
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return null;
+}
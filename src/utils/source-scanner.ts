@@ -0,0 +1,384 @@
+/**
+ * Lightweight JavaScript/TypeScript source scanning.
+ * Masks comments, string literals, template literal text and regular expression
+ * literals so code patterns can be found with regular expressions without
+ * matching text inside them. Expressions inside `${...}` stay visible.
+ */
+
+/**
+ * Characters after which a `/` starts a regular expression rather than a division.
+ * `<`, `>` and `}` are left out so JSX closing tags aren't mistaken for regular expressions.
+ */
+const REGEX_PRECEDERS = new Set(['', '(', ',', '=', ':', '[', '!', '&', '|', '?', '{', ';', '+', '-', '*', '%', '~', '^']);
+
+/**
+ * Keywords after which a `/` starts a regular expression.
+ */
+const REGEX_KEYWORDS = /(?:^|[^\w$])(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/;
+
+/**
+ * Replaces every character except line breaks with a space.
+ */
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+/**
+ * Returns a copy of the source where comments, string contents, template literal
+ * text and regular expressions are replaced with spaces. The result has the same
+ * length and line breaks, so offsets map directly back to the original.
+ *
+ * Quotes and backticks are kept so literals remain recognizable.
+ *
+ * @param source - JavaScript or TypeScript source
+ * @returns Masked source
+ */
+export function maskSource(source: string): string {
+  let output = '';
+  let i = 0;
+  const length = source.length;
+
+  // Brace depth of each open `${` in a template literal
+  const templateStack: number[] = [];
+  let braceDepth = 0;
+
+  // The last few characters of output before trailing whitespace
+  const lastSignificant = (): string => {
+    let end = output.length;
+    while (end > 0 && /\s/.test(output[end - 1])) {
+      end--;
+    }
+    return output.slice(Math.max(0, end - 12), end);
+  };
+
+  // Consumes template literal text up to the closing backtick or the next `${`
+  const scanTemplate = () => {
+    const start = i;
+    while (i < length) {
+      if (source[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (source[i] === '`') {
+        output += blank(source.slice(start, i)) + '`';
+        i++;
+        return;
+      }
+      if (source[i] === '$' && source[i + 1] === '{') {
+        output += blank(source.slice(start, i)) + '${';
+        i += 2;
+        templateStack.push(braceDepth);
+        braceDepth++;
+        return;
+      }
+      i++;
+    }
+    output += blank(source.slice(start));
+  };
+
+  while (i < length) {
+    const char = source[i];
+    const next = source[i + 1];
+
+    // Line comments
+    if (char === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? length : end;
+      output += blank(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // Block comments
+    if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? length : end + 2;
+      output += blank(source.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    // String literals
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < length && source[end] !== char && source[end] !== '\n') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      output += char + blank(source.slice(i + 1, end)) + (source[end] === char ? char : '');
+      i = source[end] === char ? end + 1 : end;
+      continue;
+    }
+
+    // Template literals
+    if (char === '`') {
+      output += '`';
+      i++;
+      scanTemplate();
+      continue;
+    }
+
+    // Regular expression literals
+    if (char === '/') {
+      const before = lastSignificant();
+      const previous = before[before.length - 1] ?? '';
+      if (REGEX_PRECEDERS.has(previous) || REGEX_KEYWORDS.test(before)) {
+        let end = i + 1;
+        let inClass = false;
+        while (end < length && source[end] !== '\n') {
+          if (source[end] === '\\') {
+            end += 2;
+            continue;
+          }
+          if (source[end] === '[') {
+            inClass = true;
+          } else if (source[end] === ']') {
+            inClass = false;
+          } else if (source[end] === '/' && !inClass) {
+            break;
+          }
+          end++;
+        }
+        if (source[end] === '/') {
+          output += '/' + blank(source.slice(i + 1, end)) + '/';
+          i = end + 1;
+          continue;
+        }
+      }
+    }
+
+    // Braces, tracking the end of `${...}` expressions
+    if (char === '{') {
+      braceDepth++;
+    } else if (char === '}') {
+      braceDepth--;
+      if (templateStack.length > 0 && templateStack[templateStack.length - 1] === braceDepth) {
+        templateStack.pop();
+        output += '}';
+        i++;
+        scanTemplate();
+        continue;
+      }
+    }
+
+    output += char;
+    i++;
+  }
+
+  return output;
+}
+
+/**
+ * Converts an offset into a 1-based line and column.
+ *
+ * @param source - Source text
+ * @param offset - 0-based offset
+ * @returns Line and column of the offset
+ */
+export function getPosition(source: string, offset: number): { line: number; column: number } {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+/**
+ * A property read such as `process.env.KEY` or `env['KEY']`.
+ */
+export interface PropertyRead {
+  key: string;
+
+  /**
+   * Offset of the object expression.
+   */
+  start: number;
+
+  /**
+   * Offset just after the property access.
+   */
+  end: number;
+}
+
+const MEMBER_ACCESS = /^\s*(?:\?\.|\.)\s*([A-Za-z_$][\w$]*)/;
+const COMPUTED_ACCESS = /^\s*(?:\?\.)?\s*\[\s*(['"`])([^'"`\\]+)\1\s*\]/;
+
+// How far around a match to look for member access and assignment operators
+const LOOKAROUND = 256;
+
+/**
+ * Checks whether the code around a member expression assigns to or deletes it.
+ */
+function isAssignmentTarget(maskedBefore: string, maskedAfter: string): boolean {
+  if (/^\s*(?:[-+*/%&|^]|\*\*|<<|>>>?|&&|\|\||\?\?)?=(?!=|>)/.test(maskedAfter)) {
+    return true;
+  }
+  if (/^\s*(?:\+\+|--)/.test(maskedAfter)) {
+    return true;
+  }
+  return /(?:\+\+|--|\bdelete)\s*$/.test(maskedBefore);
+}
+
+/**
+ * Finds reads of static properties of an object, e.g. `process.env.KEY` and
+ * `process.env['KEY']`. Assignments, deletes and dynamic reads (`obj[name]`) are skipped.
+ *
+ * @param source - Original source
+ * @param masked - The source as returned by maskSource()
+ * @param object - Regular expression source matching the object, e.g. `process\\s*\\.\\s*env`
+ * @returns Property reads in source order
+ */
+export function findPropertyReads(source: string, masked: string, object: string): PropertyRead[] {
+  const reads: PropertyRead[] = [];
+  const pattern = new RegExp(`(?<![\\w$.])(?:${object})(?![\\w$])`, 'g');
+
+  for (const match of masked.matchAll(pattern)) {
+    const start = match.index as number;
+    const afterObject = start + match[0].length;
+
+    // `.KEY` is read from the masked source; `['KEY']` from the original, since strings are masked
+    const member = MEMBER_ACCESS.exec(masked.slice(afterObject, afterObject + LOOKAROUND));
+    const computed = member ? null : COMPUTED_ACCESS.exec(source.slice(afterObject, afterObject + LOOKAROUND));
+    const access = member ?? computed;
+    if (!access) {
+      continue;
+    }
+
+    const end = afterObject + access[0].length;
+    const before = masked.slice(Math.max(0, start - LOOKAROUND), start);
+    if (isAssignmentTarget(before, masked.slice(end, end + LOOKAROUND))) {
+      continue;
+    }
+
+    reads.push({ key: member ? member[1] : (computed as RegExpExecArray)[2], start, end });
+  }
+
+  return reads;
+}
+
+/**
+ * A binding created by an import statement.
+ */
+export interface ImportBinding {
+  /**
+   * Exported name: 'default', '*' for namespace imports, or the named export.
+   */
+  imported: string;
+  local: string;
+}
+
+/**
+ * An import (or re-export, dynamic import or require call) of another module.
+ * Type-only imports are skipped, since they are erased at build time.
+ */
+export interface ModuleImport {
+  specifier: string;
+  bindings: ImportBinding[];
+
+  /**
+   * Offsets of the statement, or of the call for dynamic imports.
+   */
+  start: number;
+  end: number;
+}
+
+const LEADING_TRIVIA = /^(?:#![^\n]*\n)?(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/;
+const DIRECTIVE = /^(['"])(use [a-z]+)\1\s*;?(?:\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)*/;
+
+/**
+ * Returns the directives at the top of a module, e.g. ['use client'].
+ *
+ * @param source - Module source
+ * @returns Directive names in order
+ */
+export function getDirectives(source: string): string[] {
+  const directives: string[] = [];
+  let rest = source.slice(LEADING_TRIVIA.exec(source)?.[0].length ?? 0);
+
+  let match: RegExpExecArray | null;
+  while ((match = DIRECTIVE.exec(rest)) !== null) {
+    directives.push(match[2]);
+    rest = rest.slice(match[0].length);
+  }
+
+  return directives;
+}
+
+/**
+ * Parses the clause of an import statement (`Default, { a as b }`, `* as ns`).
+ */
+function parseImportClause(clause: string): ImportBinding[] {
+  const bindings: ImportBinding[] = [];
+  const named = /\{([^}]*)\}/.exec(clause);
+
+  if (named) {
+    for (const specifier of named[1].split(',')) {
+      const parts = specifier.trim().split(/\s+/);
+      if (parts[0] === '' || parts[0] === 'type') {
+        continue;
+      }
+      bindings.push({ imported: parts[0], local: parts[2] ?? parts[0] });
+    }
+  }
+
+  const rest = clause.replace(/\{[^}]*\}/, '');
+  const namespace = /\*\s*as\s+([A-Za-z_$][\w$]*)/.exec(rest);
+  if (namespace) {
+    bindings.push({ imported: '*', local: namespace[1] });
+  }
+  const defaultImport = /^\s*([A-Za-z_$][\w$]*)/.exec(rest);
+  if (defaultImport) {
+    bindings.push({ imported: 'default', local: defaultImport[1] });
+  }
+
+  return bindings;
+}
+
+/**
+ * Finds the modules a file imports.
+ *
+ * @param source - Original source
+ * @param masked - The source as returned by maskSource()
+ * @returns Imports in source order
+ */
+export function findImports(source: string, masked: string): ModuleImport[] {
+  const imports: ModuleImport[] = [];
+  const patterns = [
+    // import x from '...'; import '...'; export { x } from '...'
+    /(?<![\w$.])(import|export)(\s+type\b)?\s*([^'"`;()=]*?)\s*(?:\bfrom\s*)?(['"])/g,
+    // import('...'), require('...')
+    /(?<![\w$.])(import|require)\s*\(\s*(['"])/g,
+  ];
+
+  for (const [index, pattern] of patterns.entries()) {
+    for (const match of masked.matchAll(pattern)) {
+      const quote = match[match.length - 1];
+      const quoteIndex = (match.index as number) + match[0].length - 1;
+      const closeIndex = source.indexOf(quote, quoteIndex + 1);
+      if (closeIndex === -1) {
+        continue;
+      }
+
+      const specifier = source.slice(quoteIndex + 1, closeIndex);
+      if (index === 1) {
+        imports.push({ specifier, bindings: [], start: match.index as number, end: closeIndex + 1 });
+        continue;
+      }
+
+      const [, keyword, typeOnly, clause] = match;
+      // `export const x = '...'` and similar aren't re-exports
+      if (typeOnly || (keyword === 'export' && !/^(?:\*|\{)/.test(clause))) {
+        continue;
+      }
+      if (clause !== '' && !/\bfrom\s*['"]$/.test(match[0])) {
+        continue;
+      }
+
+      imports.push({
+        specifier,
+        bindings: keyword === 'import' ? parseImportClause(clause) : [],
+        start: match.index as number,
+        end: closeIndex + 1,
+      });
+    }
+  }
+
+  return imports.sort((a, b) => a.start - b.start);
+}
@@ -4,6 +4,7 @@
  */
 
 import type { ZodError } from 'zod';
+import { DEFAULT_CLIENT_PREFIX } from '../core/validator';
 
 /**
  * Common environment variable names that might be typos.
@@ -72,6 +73,7 @@ export function suggestVariableName(providedName: string): string | null {
 export function generateSuggestions(
   variableName: string,
   error: ZodError,
+  clientPrefix: string = DEFAULT_CLIENT_PREFIX,
 ): string[] {
   const suggestions: string[] = [];
 
@@ -104,11 +106,11 @@ export function generateSuggestions(
     suggestions.push(`${variableName} must be a valid URL (e.g., https://example.com).`);
   }
 
-  // Check for missing NEXT_PUBLIC_ prefix
-  if (!variableName.startsWith('NEXT_PUBLIC_') && variableName.includes('PUBLIC')) {
+  // Check for missing client prefix
+  if (!variableName.startsWith(clientPrefix) && variableName.includes('PUBLIC')) {
     suggestions.push(
-      `Client-side variables must be prefixed with "NEXT_PUBLIC_". ` +
-      `Did you mean "NEXT_PUBLIC_${variableName}"?`,
+      `Client-side variables must be prefixed with "${clientPrefix}". ` +
+      `Did you mean "${clientPrefix}${variableName}"?`,
     );
   }
 
@@ -121,8 +123,9 @@ export function generateSuggestions(
 export function formatErrorWithSuggestions(
   variableName: string,
   error: ZodError,
+  clientPrefix: string = DEFAULT_CLIENT_PREFIX,
 ): string {
-  const suggestions = generateSuggestions(variableName, error);
+  const suggestions = generateSuggestions(variableName, error, clientPrefix);
   const errorMessages = error.errors.map((e) => e.message).join(', ');
 
   let message = `❌ Invalid environment variable "${variableName}": ${errorMessages}`;
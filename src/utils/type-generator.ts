@@ -0,0 +1,173 @@
+/**
+ * Type declaration generator.
+ * Emits a `.d.ts` file that types raw `process.env` and `window.__ENV` accesses
+ * from the schemas passed to createEnv().
+ */
+
+import type { ZodTypeAny } from 'zod';
+import { getEnvSchema } from '../core/schema-metadata';
+import type { EnvSchemaMetadata } from '../core/schema-metadata';
+import { getStringLiterals, isOutputOptional, zodToTypeString } from './zod-introspect';
+
+/**
+ * Schemas to generate declarations for: the records passed to createEnv(),
+ * or the object createEnv() returned.
+ */
+export type EnvTypesSource =
+  | {
+      server?: Record<string, ZodTypeAny>;
+      client?: Record<string, ZodTypeAny>;
+      shared?: Record<string, ZodTypeAny>;
+      namespace?: string;
+    }
+  | object;
+
+/**
+ * Options for generateEnvTypes.
+ */
+export interface GenerateEnvTypesOptions {
+  /**
+   * Command shown in the header comment for regenerating the file.
+   * @default 'next-env-guard-types'
+   */
+  command?: string;
+}
+
+/**
+ * Resolves a source into schema metadata.
+ */
+function toMetadata(source: EnvTypesSource): EnvSchemaMetadata {
+  const metadata = getEnvSchema(source);
+  if (metadata) {
+    return metadata;
+  }
+
+  const { server = {}, client = {}, shared = {}, namespace } = source as {
+    server?: Record<string, ZodTypeAny>;
+    client?: Record<string, ZodTypeAny>;
+    shared?: Record<string, ZodTypeAny>;
+    namespace?: string;
+  };
+  return { server, client, shared, namespace };
+}
+
+/**
+ * Formats a property name, quoting it if it isn't a valid identifier.
+ */
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Renders a `process.env` entry.
+ * Raw values are always strings, so only string enums/literals narrow the type;
+ * everything else is typed as `string`. Keys that have a default or are optional
+ * may be missing from the raw environment.
+ */
+function processEnvEntry(key: string, schema: ZodTypeAny): string {
+  const literals = getStringLiterals(schema);
+  const type = literals && literals.length > 0
+    ? literals.map((literal) => JSON.stringify(literal)).join(' | ')
+    : 'string';
+  const optional = schema.isOptional() ? '?' : '';
+  return `${propertyName(key)}${optional}: ${type};`;
+}
+
+/**
+ * Renders a `window.__ENV` entry with the inferred (parsed) type, as in ClientEnv.
+ */
+function windowEnvEntry(key: string, schema: ZodTypeAny): string {
+  const optional = isOutputOptional(schema) ? '?' : '';
+  return `readonly ${propertyName(key)}${optional}: ${zodToTypeString(schema)};`;
+}
+
+/**
+ * Indents every line of a block.
+ */
+function indent(lines: string[], depth: number): string[] {
+  const prefix = '  '.repeat(depth);
+  return lines.map((line) => `${prefix}${line}`);
+}
+
+/**
+ * Generates the contents of an `env.d.ts` declaration file.
+ *
+ * The file augments `NodeJS.ProcessEnv` with every server, client and shared key, and
+ * types `window.__ENV` (or `window.__ENV_<namespace>__`) with the client and shared keys,
+ * so raw accesses get the same types as `ServerEnv`/`ClientEnv`.
+ *
+ * @param sources - createEnv() configs or results to generate declarations for
+ * @param options - Generation options
+ * @returns Declaration file contents
+ *
+ * @example
+ * ```typescript
+ * import { writeFileSync } from 'fs';
+ * import { generateEnvTypes } from 'next-env-guard';
+ * import { env } from './env.mjs';
+ *
+ * writeFileSync('env.d.ts', generateEnvTypes(env));
+ * ```
+ *
+ * @public
+ */
+export function generateEnvTypes(
+  sources: EnvTypesSource | EnvTypesSource[],
+  options: GenerateEnvTypesOptions = {},
+): string {
+  const { command = 'next-env-guard-types' } = options;
+  const metadataList = (Array.isArray(sources) ? sources : [sources]).map(toMetadata);
+
+  const processEnvLines: string[] = [];
+  const publicEnvLines: string[] = [];
+  const windowLines: string[] = [];
+  const seenProcessEnvKeys = new Set<string>();
+
+  for (const metadata of metadataList) {
+    for (const schema of [metadata.server, metadata.client, metadata.shared]) {
+      for (const key of Object.keys(schema)) {
+        if (!seenProcessEnvKeys.has(key)) {
+          seenProcessEnvKeys.add(key);
+          processEnvLines.push(processEnvEntry(key, schema[key]));
+        }
+      }
+    }
+
+    const publicSchema = { ...metadata.shared, ...metadata.client };
+    const clientLines = Object.keys(publicSchema).map((key) => windowEnvEntry(key, publicSchema[key]));
+    if (clientLines.length === 0) {
+      continue;
+    }
+
+    if (metadata.namespace) {
+      windowLines.push(`${propertyName(`__ENV_${metadata.namespace}__`)}?: {`, ...indent(clientLines, 1), '};');
+    } else {
+      publicEnvLines.push(...clientLines);
+    }
+  }
+
+  const lines = [
+    '// This file is generated by next-env-guard. Do not edit it by hand.',
+    `// Regenerate it with: ${command}`,
+    '',
+    'export {};',
+    '',
+    'declare global {',
+    '  namespace NodeJS {',
+    '    interface ProcessEnv {',
+    ...indent(processEnvLines, 3),
+    '    }',
+    '  }',
+  ];
+
+  if (publicEnvLines.length > 0) {
+    lines.push('', '  interface NextEnvGuardPublicEnv {', ...indent(publicEnvLines, 2), '  }');
+  }
+
+  if (windowLines.length > 0) {
+    lines.push('', '  interface Window {', ...indent(windowLines, 2), '  }');
+  }
+
+  lines.push('}', '');
+  return lines.join('\n');
+}
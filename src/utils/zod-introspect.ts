@@ -0,0 +1,296 @@
+/**
+ * Zod schema introspection utilities.
+ * Reads Zod's internal definitions to describe schemas for code generation.
+ * Only first-party Zod 3 types are recognized; anything else is treated as unknown.
+ */
+
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Subset of Zod's internal `_def` shape used for introspection (not part of Zod's public API).
+ */
+interface ZodDefLike {
+  typeName?: string;
+  innerType?: ZodTypeAny;
+  schema?: ZodTypeAny;
+  type?: ZodTypeAny;
+  in?: ZodTypeAny;
+  out?: ZodTypeAny;
+  left?: ZodTypeAny;
+  right?: ZodTypeAny;
+  keyType?: ZodTypeAny;
+  valueType?: ZodTypeAny;
+  items?: ZodTypeAny[];
+  options?: ZodTypeAny[] | Map<unknown, ZodTypeAny>;
+  values?: readonly unknown[] | Record<string, unknown>;
+  value?: unknown;
+  effect?: { type: 'refinement' | 'transform' | 'preprocess' };
+  shape?: () => Record<string, ZodTypeAny>;
+  defaultValue?: () => unknown;
+}
+
+/**
+ * Gets the internal definition of a Zod schema.
+ */
+function getDef(schema: ZodTypeAny): ZodDefLike {
+  return ((schema as unknown as { _def?: ZodDefLike })._def || {}) as ZodDefLike;
+}
+
+/**
+ * Formats a literal value as a TypeScript literal type.
+ */
+function literalType(value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return value === undefined ? 'undefined' : 'unknown';
+}
+
+/**
+ * Wraps a type in parentheses when it is a union or intersection,
+ * so it can be used as an operand of another type operator.
+ */
+function group(type: string): string {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+/**
+ * Converts a Zod schema into the TypeScript source of its inferred output type.
+ * Transforms can't be inspected at runtime, so their output is typed as `unknown`.
+ *
+ * @param schema - Zod schema to convert
+ * @returns TypeScript type expression
+ */
+export function zodToTypeString(schema: ZodTypeAny): string {
+  const def = getDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodString':
+      return 'string';
+    case 'ZodNumber':
+      return 'number';
+    case 'ZodBigInt':
+      return 'bigint';
+    case 'ZodBoolean':
+      return 'boolean';
+    case 'ZodDate':
+      return 'Date';
+    case 'ZodSymbol':
+      return 'symbol';
+    case 'ZodUndefined':
+      return 'undefined';
+    case 'ZodNull':
+      return 'null';
+    case 'ZodVoid':
+      return 'void';
+    case 'ZodAny':
+      return 'any';
+    case 'ZodNever':
+      return 'never';
+    case 'ZodLiteral':
+      return literalType(def.value);
+    case 'ZodEnum':
+      return ((def.values as readonly unknown[]) || []).map(literalType).join(' | ') || 'never';
+    case 'ZodNativeEnum': {
+      const values = def.values as Record<string, unknown>;
+      // Numeric enums have reverse mappings; skip the keys that point back to names
+      const members = Object.keys(values)
+        .filter((key) => typeof values[values[key] as string] !== 'number')
+        .map((key) => literalType(values[key]));
+      return members.join(' | ') || 'never';
+    }
+    case 'ZodOptional':
+      return `${zodToTypeString(def.innerType as ZodTypeAny)} | undefined`;
+    case 'ZodNullable':
+      return `${zodToTypeString(def.innerType as ZodTypeAny)} | null`;
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return zodToTypeString(def.innerType as ZodTypeAny);
+    case 'ZodBranded':
+      return zodToTypeString(def.type as ZodTypeAny);
+    case 'ZodEffects':
+      return def.effect?.type === 'transform' ? 'unknown' : zodToTypeString(def.schema as ZodTypeAny);
+    case 'ZodPipeline':
+      return zodToTypeString(def.out as ZodTypeAny);
+    case 'ZodArray':
+      return `${group(zodToTypeString(def.type as ZodTypeAny))}[]`;
+    case 'ZodSet':
+      return `Set<${zodToTypeString(def.valueType as ZodTypeAny)}>`;
+    case 'ZodMap':
+      return `Map<${zodToTypeString(def.keyType as ZodTypeAny)}, ${zodToTypeString(def.valueType as ZodTypeAny)}>`;
+    case 'ZodRecord':
+      return `Record<${zodToTypeString(def.keyType as ZodTypeAny)}, ${zodToTypeString(def.valueType as ZodTypeAny)}>`;
+    case 'ZodPromise':
+      return `Promise<${zodToTypeString(def.type as ZodTypeAny)}>`;
+    case 'ZodTuple':
+      return `[${(def.items || []).map(zodToTypeString).join(', ')}]`;
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion': {
+      const options = Array.from((def.options || []) as Iterable<ZodTypeAny>);
+      return options.map(zodToTypeString).join(' | ') || 'never';
+    }
+    case 'ZodIntersection':
+      return `${group(zodToTypeString(def.left as ZodTypeAny))} & ${group(zodToTypeString(def.right as ZodTypeAny))}`;
+    case 'ZodObject': {
+      const shape = def.shape ? def.shape() : {};
+      const fields = Object.keys(shape).map((key) => {
+        const optional = isOutputOptional(shape[key]) ? '?' : '';
+        return `${JSON.stringify(key)}${optional}: ${zodToTypeString(shape[key])}`;
+      });
+      return fields.length > 0 ? `{ ${fields.join('; ')} }` : 'Record<string, never>';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Checks whether the parsed (output) value of a schema can be undefined.
+ * Unlike Zod's `isOptional()`, schemas with a default are not optional here.
+ *
+ * @param schema - Zod schema to check
+ * @returns True if the output type includes undefined
+ */
+export function isOutputOptional(schema: ZodTypeAny): boolean {
+  const def = getDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodUndefined':
+    case 'ZodVoid':
+    case 'ZodAny':
+    case 'ZodUnknown':
+      return true;
+    case 'ZodNullable':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return isOutputOptional(def.innerType as ZodTypeAny);
+    case 'ZodBranded':
+      return isOutputOptional(def.type as ZodTypeAny);
+    case 'ZodEffects':
+      return def.effect?.type !== 'transform' && isOutputOptional(def.schema as ZodTypeAny);
+    case 'ZodPipeline':
+      return isOutputOptional(def.out as ZodTypeAny);
+    case 'ZodUnion':
+      return Array.from((def.options || []) as Iterable<ZodTypeAny>).some(isOutputOptional);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the string literal values a schema accepts as raw input,
+ * or null if it accepts arbitrary strings.
+ * Used to type raw `process.env` entries, which are always strings.
+ *
+ * @param schema - Zod schema to inspect
+ * @returns Accepted string literals, or null
+ */
+export function getStringLiterals(schema: ZodTypeAny): string[] | null {
+  const def = getDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodEnum': {
+      const values = (def.values as readonly unknown[]) || [];
+      return values.every((value) => typeof value === 'string') ? (values as string[]) : null;
+    }
+    case 'ZodLiteral':
+      return typeof def.value === 'string' ? [def.value] : null;
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return getStringLiterals(def.innerType as ZodTypeAny);
+    case 'ZodBranded':
+      return getStringLiterals(def.type as ZodTypeAny);
+    case 'ZodEffects':
+      // Transforms and refinements still validate the raw input against the inner schema
+      return def.effect?.type === 'preprocess' ? null : getStringLiterals(def.schema as ZodTypeAny);
+    case 'ZodPipeline':
+      return getStringLiterals(def.in as ZodTypeAny);
+    case 'ZodUnion': {
+      const options = Array.from((def.options || []) as Iterable<ZodTypeAny>);
+      const literals: string[] = [];
+      for (const option of options) {
+        const optionLiterals = getStringLiterals(option);
+        if (optionLiterals === null) {
+          return null;
+        }
+        literals.push(...optionLiterals);
+      }
+      return literals;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Gets the inner schema of a wrapper type (optional, default, effects, ...),
+ * or null if the schema doesn't wrap another one.
+ */
+function unwrapOnce(schema: ZodTypeAny): ZodTypeAny | null {
+  const def = getDef(schema);
+
+  switch (def.typeName) {
+    case 'ZodOptional':
+    case 'ZodNullable':
+    case 'ZodDefault':
+    case 'ZodCatch':
+    case 'ZodReadonly':
+      return def.innerType ?? null;
+    case 'ZodBranded':
+      return def.type ?? null;
+    case 'ZodEffects':
+      return def.schema ?? null;
+    case 'ZodPipeline':
+      return def.in ?? null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Finds the description set with `.describe()`.
+ * Wrappers such as `.optional()` don't carry the inner description, so the
+ * schema is unwrapped until a description is found.
+ *
+ * @param schema - Zod schema to inspect
+ * @returns The description, or undefined
+ */
+export function getSchemaDescription(schema: ZodTypeAny): string | undefined {
+  let current: ZodTypeAny | null = schema;
+  while (current) {
+    if (current.description) {
+      return current.description;
+    }
+    current = unwrapOnce(current);
+  }
+  return undefined;
+}
+
+/**
+ * Finds the default value set with `.default()`.
+ *
+ * @param schema - Zod schema to inspect
+ * @returns Object holding the default, or null if the schema has no default
+ */
+export function getSchemaDefault(schema: ZodTypeAny): { value: unknown } | null {
+  let current: ZodTypeAny | null = schema;
+  while (current) {
+    const def = getDef(current);
+    if (def.typeName === 'ZodDefault' && def.defaultValue) {
+      return { value: def.defaultValue() };
+    }
+    current = unwrapOnce(current);
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createEnv } from '../../src/core/create-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvClientPrefixError, EnvSecurityError } from '../../src/core/errors';
+import { clearRegisteredEnvSchemas } from '../../src/core/schema-metadata';
+import { collectPublicEnv } from '../../src/script/public-env';
+
+describe('clientPrefix', () => {
+  const runtimeEnv = {
+    DATABASE_URL: 'postgres://localhost/app',
+    VITE_API_URL: 'https://api.example.com',
+    NEXT_PUBLIC_LEGACY: 'legacy',
+  } as unknown as NodeJS.ProcessEnv;
+
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    resetRuntimeCache();
+  });
+
+  it('should require client keys to start with the configured prefix', () => {
+    const env = createEnv({
+      client: { VITE_API_URL: z.string().url() },
+      clientPrefix: 'VITE_',
+      runtimeEnv,
+    });
+    expect(env.VITE_API_URL).toBe('https://api.example.com');
+
+    const create = () =>
+      createEnv({
+        // @ts-expect-error the key doesn't start with the prefix
+        client: { NEXT_PUBLIC_LEGACY: z.string() },
+        clientPrefix: 'VITE_',
+        runtimeEnv,
+      });
+    expect(create).toThrow(EnvClientPrefixError);
+    expect(create).toThrow('Please rename "NEXT_PUBLIC_LEGACY" to "VITE_NEXT_PUBLIC_LEGACY"');
+  });
+
+  it('should reject invalid prefixes', () => {
+    expect(() => createEnv({ clientPrefix: '', runtimeEnv })).toThrow('clientPrefix must be a non-empty string');
+    expect(() => createEnv({ clientPrefix: 'PUBLIC-', runtimeEnv })).toThrow(
+      'clientPrefix can only contain alphanumeric characters and underscores',
+    );
+  });
+
+  it('should inject variables with the prefix registered by createEnv', () => {
+    const env = createEnv({
+      client: { VITE_API_URL: z.string().url() },
+      clientPrefix: 'VITE_',
+      runtimeEnv,
+    });
+
+    expect(collectPublicEnv({ env: runtimeEnv }).values).toEqual({ VITE_API_URL: 'https://api.example.com' });
+    expect(collectPublicEnv({ env: runtimeEnv, clientPrefix: 'NEXT_PUBLIC_' }).values).toEqual({
+      NEXT_PUBLIC_LEGACY: 'legacy',
+    });
+    expect(collectPublicEnv({ env: runtimeEnv, schema: env }).values).toEqual({
+      VITE_API_URL: 'https://api.example.com',
+    });
+  });
+
+  it('should suggest the configured prefix when a server variable is read on the client', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = { __ENV: { VITE_API_URL: 'https://api.example.com' } };
+    resetRuntimeCache();
+
+    const env = createEnv({
+      server: { DATABASE_URL: z.string() },
+      client: { VITE_API_URL: z.string().url() },
+      clientPrefix: 'VITE_',
+      runtimeEnv: {} as NodeJS.ProcessEnv,
+    });
+
+    expect(env.VITE_API_URL).toBe('https://api.example.com');
+    expect(() => env.DATABASE_URL).toThrow(EnvSecurityError);
+    expect(() => env.DATABASE_URL).toThrow('prefix it with "VITE_"');
+  });
+});
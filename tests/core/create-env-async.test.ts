@@ -0,0 +1,127 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { createEnvAsync } from '../../src/core/create-env-async';
+import { clearSecretProviderCache, resolveSecrets } from '../../src/core/secret-provider';
+import type { SecretProvider } from '../../src/core/secret-provider';
+import { EnvSecretProviderError, EnvValidationError } from '../../src/core/errors';
+import { resetRuntimeCache } from '../../src/core/detector';
+
+function mapProvider(name: string, values: Record<string, string>, extra: Partial<SecretProvider> = {}) {
+  return {
+    name,
+    resolve: vi.fn(({ key, ref }: { key: string; ref?: string }) => values[ref ?? key]),
+    ...extra,
+  };
+}
+
+describe('resolveSecrets', () => {
+  afterEach(() => {
+    clearSecretProviderCache();
+  });
+
+  it('should ask providers for missing keys in priority order', async () => {
+    const low = mapProvider('low', { API_KEY: 'from-low', TOKEN: 'token-low' });
+    const high = mapProvider('high', { API_KEY: 'from-high' }, { priority: 10 });
+
+    const resolved = await resolveSecrets(
+      ['API_KEY', 'TOKEN', 'SET', 'UNKNOWN'],
+      { SET: 'already-set' },
+      [low, high],
+    );
+
+    expect(resolved).toEqual({ API_KEY: 'from-high', TOKEN: 'token-low' });
+    expect(low.resolve).not.toHaveBeenCalledWith(expect.objectContaining({ key: 'API_KEY' }));
+    expect(high.resolve).not.toHaveBeenCalledWith(expect.objectContaining({ key: 'SET' }));
+  });
+
+  it('should resolve secretRef:// URIs with the named provider only', async () => {
+    const vault = mapProvider('vault', { 'db/main#password': 'hunter2' });
+    const other = mapProvider('other', {});
+
+    const resolved = await resolveSecrets(
+      ['DB_PASSWORD'],
+      { DB_PASSWORD: 'secretRef://vault/db/main#password' },
+      [other, vault],
+    );
+
+    expect(resolved).toEqual({ DB_PASSWORD: 'hunter2' });
+    expect(other.resolve).not.toHaveBeenCalled();
+
+    await expect(
+      resolveSecrets(['A'], { A: 'secretRef://vault/missing' }, [vault]),
+    ).rejects.toThrow('secretRef://vault/missing was not found');
+    await expect(
+      resolveSecrets(['A'], { A: 'secretRef://aws/db' }, [vault]),
+    ).rejects.toThrow('no provider with this name is configured');
+  });
+
+  it('should fail a lookup that exceeds its timeout and abort it', async () => {
+    let signal: AbortSignal | undefined;
+    const slow: SecretProvider = {
+      name: 'slow',
+      timeout: 20,
+      resolve: (request) => {
+        signal = request.signal;
+        return new Promise((resolve) => setTimeout(() => resolve('late'), 1000));
+      },
+    };
+
+    await expect(resolveSecrets(['API_KEY'], {}, [slow])).rejects.toThrow(
+      new EnvSecretProviderError('slow', 'API_KEY', 'timed out after 20ms'),
+    );
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should wrap provider errors', async () => {
+    const broken: SecretProvider = {
+      name: 'broken',
+      resolve: () => Promise.reject(new Error('permission denied')),
+    };
+
+    await expect(resolveSecrets(['API_KEY'], {}, [broken])).rejects.toThrow(
+      'Secret provider "broken" could not resolve API_KEY: permission denied',
+    );
+  });
+
+  it('should cache values for providers with a cacheTtl', async () => {
+    const cached = mapProvider('cached', { API_KEY: 'value' }, { cacheTtl: 60_000 });
+    const uncached = mapProvider('uncached', { TOKEN: 'value' });
+
+    await resolveSecrets(['API_KEY', 'TOKEN'], {}, [cached, uncached]);
+    await resolveSecrets(['API_KEY', 'TOKEN'], {}, [cached, uncached]);
+    // Asked once each for API_KEY and TOKEN; the miss is cached too
+    expect(cached.resolve).toHaveBeenCalledTimes(2);
+    expect(uncached.resolve).toHaveBeenCalledTimes(2);
+
+    clearSecretProviderCache();
+    await resolveSecrets(['API_KEY'], {}, [cached]);
+    expect(cached.resolve).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('createEnvAsync', () => {
+  afterEach(() => {
+    resetRuntimeCache();
+  });
+
+  it('should validate resolved values and treat them as secrets', async () => {
+    const provider = mapProvider('vault', { API_KEY: 'short', 'db#password': 'hunter2' });
+    const runtimeEnv = { DB_PASSWORD: 'secretRef://vault/db#password' } as unknown as NodeJS.ProcessEnv;
+
+    const env = await createEnvAsync({
+      server: { DB_PASSWORD: z.string(), REGION: z.string().default('eu-west-1') },
+      runtimeEnv,
+      providers: [provider],
+    });
+    expect(env.DB_PASSWORD).toBe('hunter2');
+    expect(env.REGION).toBe('eu-west-1');
+
+    const error = await createEnvAsync({
+      server: { API_KEY: z.string().min(32) },
+      runtimeEnv,
+      providers: [provider],
+    }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect((error as EnvValidationError).message).not.toContain('short');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createEnv } from '../../src/core/create-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvSecurityError, EnvValidationError } from '../../src/core/errors';
+import { clearRegisteredEnvSchemas, getEnvSchema } from '../../src/core/schema-metadata';
+import { presets } from '../../src/presets';
+import { isSecretSchema } from '../../src/core/secret';
+
+describe('extending env objects', () => {
+  const runtimeEnv = {
+    DATABASE_URL: 'postgres://localhost/app',
+    AUTH_SECRET: 'super-secret-value',
+    NEXT_PUBLIC_AUTH_URL: 'https://auth.example.com',
+    NEXT_PUBLIC_APP_URL: 'https://app.example.com',
+  } as unknown as NodeJS.ProcessEnv;
+
+  const createDbEnv = () =>
+    createEnv({
+      server: { DATABASE_URL: z.string().url() },
+      runtimeEnv,
+    });
+
+  const createAuthEnv = () =>
+    createEnv({
+      server: { AUTH_SECRET: z.string().min(8) },
+      client: { NEXT_PUBLIC_AUTH_URL: z.string().url() },
+      runtimeEnv,
+    });
+
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    resetRuntimeCache();
+  });
+
+  it('should merge the schemas of extended envs', () => {
+    const env = createEnv({
+      extends: [createDbEnv(), createAuthEnv()],
+      client: { NEXT_PUBLIC_APP_URL: z.string().url() },
+      runtimeEnv,
+    });
+    const metadata = getEnvSchema(env);
+
+    expect(env.DATABASE_URL).toBe('postgres://localhost/app');
+    expect(env.AUTH_SECRET).toBe('super-secret-value');
+    expect(env.NEXT_PUBLIC_AUTH_URL).toBe('https://auth.example.com');
+    expect(env.NEXT_PUBLIC_APP_URL).toBe('https://app.example.com');
+    expect(Object.keys(metadata?.server ?? {})).toEqual(['DATABASE_URL', 'AUTH_SECRET']);
+    expect(Object.keys(metadata?.client ?? {})).toEqual(['NEXT_PUBLIC_AUTH_URL', 'NEXT_PUBLIC_APP_URL']);
+  });
+
+  it('should validate inherited variables again', () => {
+    const dbEnv = createDbEnv();
+
+    expect(() =>
+      createEnv({
+        extends: [dbEnv],
+        runtimeEnv: { DATABASE_URL: 'not-a-url' } as unknown as NodeJS.ProcessEnv,
+      }),
+    ).toThrow(EnvValidationError);
+  });
+
+  it('should reject a key declared by two extended envs in different sections', () => {
+    const dbEnv = createEnv({ server: { APP_ENV: z.string().optional() }, runtimeEnv, namespace: 'db' });
+    const uiEnv = createEnv({ shared: { APP_ENV: z.string().optional() }, runtimeEnv, namespace: 'db' });
+
+    expect(() => createEnv({ extends: [dbEnv, uiEnv], runtimeEnv })).toThrow(
+      '"APP_ENV" is declared by both env "db" (server) and env "db" (shared)',
+    );
+    expect(() =>
+      createEnv({
+        extends: [dbEnv, uiEnv],
+        server: { APP_ENV: z.string().optional() },
+        runtimeEnv,
+      }),
+    ).not.toThrow();
+  });
+
+  it('should merge separately built schemas for the same key, keeping them secret', () => {
+    const dbEnv = createEnv({ server: { DATABASE_URL: z.string().url() }, secrets: ['DATABASE_URL'], runtimeEnv });
+    const jobsEnv = createEnv({ server: { DATABASE_URL: z.string().url() }, runtimeEnv });
+    const env = createEnv({ extends: [dbEnv, jobsEnv], runtimeEnv });
+
+    expect(env.DATABASE_URL).toBe('postgres://localhost/app');
+    expect(isSecretSchema(getEnvSchema(env)?.server.DATABASE_URL)).toBe(true);
+  });
+
+  it('should allow envs that extend the same preset', () => {
+    const dbEnv = createEnv({ extends: [presets.vercel()], runtimeEnv });
+    const authEnv = createEnv({ extends: [presets.vercel()], runtimeEnv });
+
+    expect(() => createEnv({ extends: [dbEnv, authEnv], runtimeEnv })).not.toThrow();
+  });
+
+  it('should inherit the namespace of extended envs', () => {
+    const authEnv = createEnv({
+      client: { NEXT_PUBLIC_AUTH_URL: z.string().url() },
+      runtimeEnv,
+      namespace: 'auth',
+    });
+    const adminEnv = createEnv({ server: { AUTH_SECRET: z.string() }, runtimeEnv, namespace: 'admin' });
+
+    expect(getEnvSchema(createEnv({ extends: [authEnv], runtimeEnv }))?.namespace).toBe('auth');
+    expect(() => createEnv({ extends: [authEnv, adminEnv], runtimeEnv })).toThrow(
+      'extends combines envs with different namespaces (auth, admin)',
+    );
+    expect(getEnvSchema(createEnv({ extends: [authEnv, adminEnv], runtimeEnv, namespace: 'app' }))?.namespace).toBe('app');
+  });
+
+  it('should block inherited server variables on the client', () => {
+    const dbEnv = createDbEnv();
+    const authEnv = createAuthEnv();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = { __ENV: { NEXT_PUBLIC_AUTH_URL: 'https://auth.example.com' } };
+    resetRuntimeCache();
+
+    const env = createEnv({ extends: [dbEnv, authEnv], runtimeEnv: {} as NodeJS.ProcessEnv });
+
+    expect(env.NEXT_PUBLIC_AUTH_URL).toBe('https://auth.example.com');
+    expect(() => env.DATABASE_URL).toThrow(EnvSecurityError);
+    expect(() => env.AUTH_SECRET).toThrow(EnvSecurityError);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createHash, createHmac } from 'node:crypto';
+import { z } from 'zod';
+import { createEnvSignature, hmacSha256, verifyEnvSignature } from '../../src/core/integrity';
+import { sha256 } from '../../src/utils/sha256';
+import { generateEnvScript } from '../../src/script/generator';
+import { getClientEnv } from '../../src/core/client-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvIntegrityError } from '../../src/core/errors';
+import { observabilityHooks } from '../../src/core/hooks/observability';
+
+describe('integrity', () => {
+  const encoder = new TextEncoder();
+
+  it('should match Node crypto for SHA-256 and HMAC-SHA256', () => {
+    for (const message of ['', 'abc', 'x'.repeat(55), 'x'.repeat(64), '{"NEXT_PUBLIC_URL":"https://é.example"}']) {
+      expect(Buffer.from(sha256(encoder.encode(message))).toString('hex')).toBe(
+        createHash('sha256').update(message).digest('hex'),
+      );
+    }
+    for (const key of ['k', 'build-key', 'k'.repeat(100)]) {
+      expect(Buffer.from(hmacSha256(encoder.encode(key), encoder.encode('payload'))).toString('hex')).toBe(
+        createHmac('sha256', key).update('payload').digest('hex'),
+      );
+    }
+  });
+
+  it('should verify only the signed payload and key', () => {
+    const signature = createEnvSignature('{"A":"1"}', 'build-key');
+
+    expect(verifyEnvSignature('{"A":"1"}', signature, 'build-key')).toBe(true);
+    expect(verifyEnvSignature('{"A":"2"}', signature, 'build-key')).toBe(false);
+    expect(verifyEnvSignature('{"A":"1"}', signature, 'other-key')).toBe(false);
+    expect(verifyEnvSignature('{"A":"1"}', 'abc', 'build-key')).toBe(false);
+  });
+});
+
+describe('getClientEnv integrity check', () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    observabilityHooks.clear();
+    resetRuntimeCache();
+  });
+
+  const schema = { NEXT_PUBLIC_API_URL: z.string().url() };
+  const values = { NEXT_PUBLIC_API_URL: 'https://api.example.com/?q=<b>' };
+
+  function runScript(script: string): void {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    resetRuntimeCache();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    new Function('window', script)((global as any).window);
+  }
+
+  it('should accept a payload signed with the same key', () => {
+    runScript(generateEnvScript(values, undefined, { integrityKey: 'build-key' }));
+
+    expect(getClientEnv(schema, undefined, false, undefined, { integrityKey: 'build-key' })).toEqual(values);
+  });
+
+  it('should reject an unsigned or tampered payload and report it', () => {
+    const reports: Array<Record<string, unknown> | undefined> = [];
+    observabilityHooks.setErrorReporter({
+      reportError: (_error, context) => reports.push(context),
+    });
+
+    runScript(generateEnvScript(values));
+    expect(() => getClientEnv(schema, undefined, false, undefined, { integrityKey: 'build-key' })).toThrow(
+      EnvIntegrityError,
+    );
+
+    const signed = generateEnvScript(values, undefined, { integrityKey: 'build-key' });
+    runScript(signed.replace('api.example.com', 'evil.example.com'));
+    try {
+      getClientEnv(schema, undefined, false, undefined, { integrityKey: 'build-key' });
+      expect.fail('expected EnvIntegrityError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(EnvIntegrityError);
+      expect((error as EnvIntegrityError).reason).toBe('mismatch');
+    }
+
+    expect(reports).toEqual([
+      { envKey: '__ENV', reason: 'missing' },
+      { envKey: '__ENV', reason: 'mismatch' },
+    ]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createEnv } from '../../src/core/create-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvValidationError } from '../../src/core/errors';
+import { clearRegisteredEnvSchemas } from '../../src/core/schema-metadata';
+import { observabilityHooks } from '../../src/core/hooks/observability';
+import { createMockEdgeAdapter, createMockServerAdapter } from '../../src/core/testing/runtime-mock';
+import type { EnvRefinementContext } from '../../src/core/types';
+
+describe('refine', () => {
+  const server = {
+    AUTH_PROVIDER: z.enum(['github', 'email']),
+    GITHUB_CLIENT_ID: z.string().optional(),
+    GITHUB_CLIENT_SECRET: z.string().optional(),
+    MIN_POOL: z.coerce.number().int(),
+    MAX_POOL: z.coerce.number().int(),
+  };
+
+  const refine = (
+    env: { AUTH_PROVIDER: string; GITHUB_CLIENT_ID?: string; GITHUB_CLIENT_SECRET?: string; MIN_POOL: number; MAX_POOL: number },
+    ctx: EnvRefinementContext<'GITHUB_CLIENT_ID' | 'GITHUB_CLIENT_SECRET' | 'MIN_POOL'>,
+  ) => {
+    if (env.AUTH_PROVIDER === 'github') {
+      if (!env.GITHUB_CLIENT_ID) {
+        ctx.addIssue({ key: 'GITHUB_CLIENT_ID', message: 'Required when AUTH_PROVIDER is "github"' });
+      }
+      if (!env.GITHUB_CLIENT_SECRET) {
+        ctx.addIssue({ key: 'GITHUB_CLIENT_SECRET', message: 'Required when AUTH_PROVIDER is "github"' });
+      }
+    }
+    if (env.MIN_POOL > env.MAX_POOL) {
+      ctx.addIssue({ key: 'MIN_POOL', message: `Must not be greater than MAX_POOL (${env.MAX_POOL})` });
+    }
+  };
+
+  const getError = (fn: () => unknown): EnvValidationError => {
+    try {
+      fn();
+    } catch (error) {
+      return error as EnvValidationError;
+    }
+    throw new Error('Expected an error');
+  };
+
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    resetRuntimeCache();
+    observabilityHooks.clear();
+  });
+
+  it('should pass the parsed env to the check', () => {
+    const env = createEnv({
+      server,
+      refine,
+      runtimeEnv: {
+        AUTH_PROVIDER: 'github',
+        GITHUB_CLIENT_ID: 'id',
+        GITHUB_CLIENT_SECRET: 'secret',
+        MIN_POOL: '2',
+        MAX_POOL: '10',
+      } as unknown as NodeJS.ProcessEnv,
+    });
+
+    expect(env.MIN_POOL).toBe(2);
+  });
+
+  it('should throw the issues as an EnvValidationError attributed to their keys', () => {
+    const error = getError(() =>
+      createEnv({
+        server,
+        refine,
+        runtimeEnv: { AUTH_PROVIDER: 'github', MIN_POOL: '10', MAX_POOL: '2' } as unknown as NodeJS.ProcessEnv,
+      }),
+    );
+
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect(error.errors).toEqual([
+      { key: 'GITHUB_CLIENT_ID', message: 'Required when AUTH_PROVIDER is "github"' },
+      { key: 'GITHUB_CLIENT_SECRET', message: 'Required when AUTH_PROVIDER is "github"' },
+      { key: 'MIN_POOL', message: 'Must not be greater than MAX_POOL (2)' },
+    ]);
+    expect(error.message).toContain('  - MIN_POOL: Must not be greater than MAX_POOL (2)');
+  });
+
+  it('should throw schema errors and issues together, skipping checks that read an invalid variable', () => {
+    const error = getError(() =>
+      createEnv({
+        server,
+        refine,
+        runtimeEnv: { AUTH_PROVIDER: 'github', MIN_POOL: '10', MAX_POOL: 'many' } as unknown as NodeJS.ProcessEnv,
+      }),
+    );
+
+    // The check stops when it reads MAX_POOL, so it adds no issue for the pool sizes
+    expect(error.errors).toEqual([
+      { key: 'MAX_POOL', message: expect.stringContaining('Expected number'), received: 'many' },
+      { key: 'GITHUB_CLIENT_ID', message: 'Required when AUTH_PROVIDER is "github"' },
+      { key: 'GITHUB_CLIENT_SECRET', message: 'Required when AUTH_PROVIDER is "github"' },
+    ]);
+  });
+
+  it('should throw schema errors and issues together under the mock server and edge adapters', () => {
+    for (const runtimeAdapter of [createMockServerAdapter(), createMockEdgeAdapter()]) {
+      const error = getError(() =>
+        createEnv({
+          server,
+          refine,
+          runtimeAdapter,
+          runtimeEnv: { AUTH_PROVIDER: 'github', MIN_POOL: '10', MAX_POOL: 'many' } as unknown as NodeJS.ProcessEnv,
+        }),
+      );
+
+      expect(error.errors.map((err) => err.key)).toEqual(['MAX_POOL', 'GITHUB_CLIENT_ID', 'GITHUB_CLIENT_SECRET']);
+    }
+  });
+
+  it('should report the issues to the error reporter once', () => {
+    const reports: Array<Record<string, unknown> | undefined> = [];
+    observabilityHooks.setErrorReporter({
+      reportError: (_error, context) => reports.push(context),
+    });
+
+    getError(() =>
+      createEnv({
+        server,
+        refine,
+        runtimeEnv: { AUTH_PROVIDER: 'email', MIN_POOL: '10', MAX_POOL: '2' } as unknown as NodeJS.ProcessEnv,
+      }),
+    );
+
+    expect(reports).toEqual([
+      { errors: [{ key: 'MIN_POOL', message: 'Must not be greater than MAX_POOL (2)' }] },
+    ]);
+  });
+
+  it('should skip the check with skipValidation and on the client', () => {
+    const runtimeEnv = { AUTH_PROVIDER: 'github', MIN_POOL: '10', MAX_POOL: '2' } as unknown as NodeJS.ProcessEnv;
+
+    expect(() => createEnv({ server, refine, runtimeEnv, skipValidation: true })).not.toThrow();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = { __ENV: {} };
+    resetRuntimeCache();
+
+    expect(() => createEnv({ server, refine, runtimeEnv })).not.toThrow();
+  });
+
+  it('should run the checks of extended envs', () => {
+    const runtimeEnv = { AUTH_PROVIDER: 'email', MIN_POOL: '1', MAX_POOL: '2' } as unknown as NodeJS.ProcessEnv;
+    const dbEnv = createEnv({ server, refine, runtimeEnv });
+
+    const error = getError(() =>
+      createEnv({
+        extends: [dbEnv],
+        refine: (env, ctx) => {
+          if (env.MAX_POOL > 5) {
+            ctx.addIssue({ key: 'MAX_POOL', message: 'Must be at most 5' });
+          }
+        },
+        runtimeEnv: { ...runtimeEnv, MIN_POOL: '8', MAX_POOL: '6' } as unknown as NodeJS.ProcessEnv,
+      }),
+    );
+
+    expect(error.errors.map((err) => err.key)).toEqual(['MIN_POOL', 'MAX_POOL']);
+  });
+
+  it('should reject a refine that is not a function', () => {
+    expect(() =>
+      createEnv({
+        server,
+        refine: 'nope' as never,
+        runtimeEnv: {} as NodeJS.ProcessEnv,
+      }),
+    ).toThrow('refine must be a function');
+  });
+});
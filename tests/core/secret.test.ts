@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { secret, isSecretSchema } from '../../src/core/secret';
+import { createEnv } from '../../src/core/create-env';
+import { validateEnv } from '../../src/core/validator';
+import { EnvValidationError } from '../../src/core/errors';
+import { observabilityHooks } from '../../src/core/hooks/observability';
+
+function catchValidationError(fn: () => unknown): EnvValidationError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof EnvValidationError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected EnvValidationError');
+}
+
+describe('secret', () => {
+  afterEach(() => {
+    observabilityHooks.clear();
+  });
+
+  it('should tag a copy of the schema', () => {
+    const base = z.string();
+    const tagged = secret(base);
+
+    expect(isSecretSchema(tagged)).toBe(true);
+    expect(isSecretSchema(base)).toBe(false);
+    expect(tagged.parse('value')).toBe('value');
+  });
+
+  it('should keep the tag through optional, default and transform wrappers', () => {
+    expect(isSecretSchema(secret(z.string()).optional())).toBe(true);
+    expect(isSecretSchema(secret(z.string()).default('x'))).toBe(true);
+    expect(isSecretSchema(secret(z.string()).transform((value) => value.length))).toBe(true);
+  });
+
+  it('should leave the received value out of validation errors', () => {
+    const error = catchValidationError(() =>
+      validateEnv(
+        { DATABASE_URL: secret(z.string().url()), PORT: z.coerce.number() },
+        { DATABASE_URL: 'postgres-password', PORT: 'abc' } as unknown as NodeJS.ProcessEnv,
+      ),
+    );
+
+    expect(error.message).not.toContain('postgres-password');
+    expect(error.message).toContain('PORT');
+    expect(error.message).toContain('(received: "abc")');
+    expect(error.errors.find((entry) => entry.key === 'DATABASE_URL')).toEqual({
+      key: 'DATABASE_URL',
+      message: expect.any(String),
+      secret: true,
+    });
+  });
+
+  it('should not use Zod messages that echo the value', () => {
+    const reports: Array<Record<string, unknown> | undefined> = [];
+    observabilityHooks.setErrorReporter({
+      reportError: (_error, context) => reports.push(context),
+    });
+
+    const error = catchValidationError(() =>
+      validateEnv(
+        { API_MODE: secret(z.enum(['a', 'b'])), API_TOKEN: secret(z.literal('expected-token')) },
+        { API_MODE: 'hunter2-SECRET', API_TOKEN: 'hunter3-SECRET' } as unknown as NodeJS.ProcessEnv,
+      ),
+    );
+
+    expect(error.message).not.toContain('SECRET');
+    expect(JSON.stringify(reports)).not.toContain('SECRET');
+    expect(error.errors).toEqual([
+      { key: 'API_MODE', message: 'Invalid value, expected "a" | "b" (code: invalid_enum_value)', secret: true },
+      { key: 'API_TOKEN', message: 'Invalid value, expected "expected-token" (code: invalid_literal)', secret: true },
+    ]);
+  });
+
+  it('should redact the context sent to the error reporter', () => {
+    const reports: Array<Record<string, unknown> | undefined> = [];
+    observabilityHooks.setErrorReporter({
+      reportError: (_error, context) => reports.push(context),
+    });
+
+    catchValidationError(() =>
+      validateEnv(
+        { API_KEY: secret(z.string().min(32)) },
+        { API_KEY: 'sk_short' } as unknown as NodeJS.ProcessEnv,
+      ),
+    );
+
+    expect(reports).toHaveLength(1);
+    expect(JSON.stringify(reports[0])).not.toContain('sk_short');
+  });
+
+  it('should drop received values of secret entries passed to EnvValidationError directly', () => {
+    const error = new EnvValidationError([{ key: 'TOKEN', message: 'Invalid', received: 'abc123', secret: true }]);
+
+    expect(error.message).not.toContain('abc123');
+    expect(error.errors[0]).not.toHaveProperty('received');
+  });
+
+  it('should treat keys listed in secrets as secret', () => {
+    const error = catchValidationError(() =>
+      createEnv({
+        server: {
+          DATABASE_URL: z.string().url(),
+          REGION: z.enum(['eu', 'us']),
+        },
+        secrets: ['DATABASE_URL'],
+        runtimeEnv: { DATABASE_URL: 'hunter2', REGION: 'mars' } as unknown as NodeJS.ProcessEnv,
+      }),
+    );
+
+    expect(error.message).not.toContain('hunter2');
+    expect(error.message).toContain('(received: "mars")');
+  });
+
+  it('should reject secrets that are not server variables', () => {
+    expect(() =>
+      createEnv({
+        server: { DATABASE_URL: z.string() },
+        secrets: ['MISSING' as 'DATABASE_URL'],
+        runtimeEnv: { DATABASE_URL: 'x' } as unknown as NodeJS.ProcessEnv,
+      }),
+    ).toThrow('secrets contains "MISSING"');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { createEnv } from '../../src/core/create-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvSecurityError } from '../../src/core/errors';
+import { clearRegisteredEnvSchemas } from '../../src/core/schema-metadata';
+import { collectPublicEnv } from '../../src/script/public-env';
+import { generateEnvScript } from '../../src/script/generator';
+
+describe('shared variables', () => {
+  const runtimeEnv = {
+    NODE_ENV: 'production',
+    VERCEL_ENV: 'preview',
+    DATABASE_URL: 'postgres://localhost/app',
+    NEXT_PUBLIC_API_URL: 'https://api.example.com',
+  } as unknown as NodeJS.ProcessEnv;
+
+  const config = {
+    server: { DATABASE_URL: z.string().url() },
+    client: { NEXT_PUBLIC_API_URL: z.string().url() },
+    shared: {
+      NODE_ENV: z.enum(['development', 'test', 'production']),
+      VERCEL_ENV: z.enum(['development', 'preview', 'production']).optional(),
+    },
+    runtimeEnv,
+  };
+
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    resetRuntimeCache();
+  });
+
+  it('should read shared variables on the server without the NEXT_PUBLIC_ prefix', () => {
+    const env = createEnv(config);
+
+    expect(env.NODE_ENV).toBe('production');
+    expect(env.VERCEL_ENV).toBe('preview');
+    expect(env.DATABASE_URL).toBe('postgres://localhost/app');
+  });
+
+  it('should reject keys declared in more than one section', () => {
+    expect(() =>
+      createEnv({
+        server: { NODE_ENV: z.string() },
+        shared: { NODE_ENV: z.string() },
+        runtimeEnv,
+      }),
+    ).toThrow('"NODE_ENV" is declared in both the shared and server schemas');
+  });
+
+  it('should inject shared variables with or without a schema', () => {
+    const env = createEnv(config);
+
+    expect(collectPublicEnv({ env: runtimeEnv, schema: env }).values).toEqual({
+      NODE_ENV: 'production',
+      VERCEL_ENV: 'preview',
+      NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    });
+    expect(collectPublicEnv({ env: runtimeEnv }).values).toEqual({
+      NODE_ENV: 'production',
+      VERCEL_ENV: 'preview',
+      NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    });
+    expect(collectPublicEnv({ env: runtimeEnv, namespace: 'other' }).values).toEqual({
+      NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    });
+  });
+
+  it('should read shared variables from window.__ENV on the client', () => {
+    createEnv(config);
+    const script = generateEnvScript(collectPublicEnv({ env: runtimeEnv }).values);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    resetRuntimeCache();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    new Function('window', script)((global as any).window);
+
+    const env = createEnv({ ...config, runtimeEnv: {} as NodeJS.ProcessEnv });
+
+    expect(env.NODE_ENV).toBe('production');
+    expect(env.NEXT_PUBLIC_API_URL).toBe('https://api.example.com');
+    expect(() => env.DATABASE_URL).toThrow(EnvSecurityError);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { watchEnv } from '../../src/dev/watch-env';
+import type { EnvWatcher } from '../../src/dev/watch-env';
+import { createEnv } from '../../src/core/create-env';
+import { createEnvAsync } from '../../src/core/create-env-async';
+import { loadEnv } from '../../src/utils/env-loader';
+import { observabilityHooks } from '../../src/core/hooks/observability';
+import { EnvValidationError } from '../../src/core/errors';
+
+describe('watchEnv', () => {
+  let directory: string;
+  let watcher: EnvWatcher | undefined;
+
+  const write = (file: string, content: string) => fs.writeFileSync(path.join(directory, file), content);
+
+  const createDevEnv = () => {
+    const runtimeEnv = loadEnv({
+      cwd: directory,
+      nodeEnv: 'development',
+      processEnv: { REGION: 'eu-west-1' } as unknown as NodeJS.ProcessEnv,
+    });
+    const env = createEnv({
+      server: {
+        DATABASE_URL: z.string().url(),
+        PORT: z.coerce.number(),
+        REGION: z.string(),
+        DEBUG: z.string().optional(),
+      },
+      client: { NEXT_PUBLIC_APP_NAME: z.string() },
+      runtimeEnv,
+    });
+    return { env, runtimeEnv };
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+    write('.env', 'DATABASE_URL=postgres://localhost/app\nPORT=3000\nNEXT_PUBLIC_APP_NAME=demo\nREGION=us-east-1\n');
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    observabilityHooks.clear();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should swap changed values in place and log the changed keys', () => {
+    const { env, runtimeEnv } = createDevEnv();
+    const logs: Array<{ message: string; context?: Record<string, unknown> }> = [];
+    observabilityHooks.setLogger({
+      info: (message, context) => logs.push({ message, context }),
+      warn: () => undefined,
+      error: () => undefined,
+    });
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development', runtimeEnv });
+
+    write('.env.local', 'PORT=4000\nDEBUG=1\nREGION=ignored\n');
+    const result = watcher.reload();
+
+    expect(result).toEqual({ added: ['DEBUG'], removed: [], changed: ['PORT'] });
+    expect(env.PORT).toBe(4000);
+    expect(env.DEBUG).toBe('1');
+    // Set outside the .env files, so it keeps precedence
+    expect(env.REGION).toBe('eu-west-1');
+    expect(logs).toEqual([
+      {
+        message: '🔄 Reloaded environment variables: +DEBUG, ~PORT',
+        context: { added: ['DEBUG'], removed: [], changed: ['PORT'] },
+      },
+    ]);
+  });
+
+  it('should read KEY_FILE variables on reload when fileSecrets is enabled', () => {
+    fs.mkdirSync(path.join(directory, 'secrets'));
+    fs.writeFileSync(path.join(directory, 'secrets', 'db'), 'hunter2\n');
+    write('.env', `PORT=3000\nDATABASE_PASSWORD_FILE=${path.join(directory, 'secrets', 'db')}\n`);
+    const runtimeEnv = loadEnv({ cwd: directory, nodeEnv: 'development', processEnv: {} as NodeJS.ProcessEnv });
+    const env = createEnv({
+      server: { DATABASE_PASSWORD: z.string().min(1), PORT: z.coerce.number() },
+      runtimeEnv,
+      fileSecrets: { directories: [path.join(directory, 'secrets')] },
+    });
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development', runtimeEnv });
+
+    write('.env.local', 'PORT=4000\n');
+    fs.writeFileSync(path.join(directory, 'secrets', 'db'), 'swordfish\n');
+    const result = watcher.reload();
+
+    expect(result).toEqual({ added: [], removed: [], changed: ['DATABASE_PASSWORD', 'PORT'] });
+    expect(env.DATABASE_PASSWORD).toBe('swordfish');
+    expect(env.PORT).toBe(4000);
+  });
+
+  it('should default to the runtimeEnv passed to createEnv()', () => {
+    const { env } = createDevEnv();
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development' });
+
+    write('.env.local', 'PORT=4000\n');
+    const result = watcher.reload();
+
+    expect(result).toEqual({ added: [], removed: [], changed: ['PORT'] });
+    expect(env.REGION).toBe('eu-west-1');
+  });
+
+  it('should keep the values createEnvAsync() resolved through providers', async () => {
+    write('.env', 'PORT=3000\nAPI_KEY=secretRef://vault/api\n');
+    const runtimeEnv = loadEnv({ cwd: directory, nodeEnv: 'development', processEnv: {} as NodeJS.ProcessEnv });
+    const env = await createEnvAsync({
+      server: { API_KEY: z.string().startsWith('sk_'), DATABASE_PASSWORD: z.string(), PORT: z.coerce.number() },
+      runtimeEnv,
+      providers: [
+        {
+          name: 'vault',
+          resolve: ({ key, ref }) => (ref === 'api' ? 'sk_resolved' : key === 'DATABASE_PASSWORD' ? 'hunter2' : undefined),
+        },
+      ],
+    });
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development', runtimeEnv });
+
+    write('.env.local', 'PORT=4000\n');
+    const result = watcher.reload();
+
+    expect(result).toEqual({ added: [], removed: [], changed: ['PORT'] });
+    expect(env.API_KEY).toBe('sk_resolved');
+    expect(env.DATABASE_PASSWORD).toBe('hunter2');
+  });
+
+  it('should keep the previous values and log invalid files without throwing', () => {
+    const { env, runtimeEnv } = createDevEnv();
+    const errors: unknown[] = [];
+    observabilityHooks.setLogger({
+      info: () => undefined,
+      warn: () => undefined,
+      error: (_message, error) => errors.push(error),
+    });
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development', runtimeEnv });
+
+    write('.env.local', 'DATABASE_URL=not-a-url\n');
+    const result = watcher.reload();
+
+    expect(result.error).toBeInstanceOf(EnvValidationError);
+    expect(errors).toEqual([result.error]);
+    expect(env.DATABASE_URL).toBe('postgres://localhost/app');
+  });
+
+  it('should reload when a watched file changes', async () => {
+    const { env, runtimeEnv } = createDevEnv();
+    const onReload = vi.fn();
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'development', runtimeEnv, debounce: 10, onReload });
+
+    write('.env.development.local', 'PORT=5000\n');
+    write('notes.txt', 'unrelated');
+
+    await vi.waitFor(() => expect(env.PORT).toBe(5000), { timeout: 2000 });
+    expect(onReload).toHaveBeenCalled();
+  });
+
+  it('should do nothing outside development', () => {
+    const { env, runtimeEnv } = createDevEnv();
+    watcher = watchEnv(env, { cwd: directory, nodeEnv: 'production', runtimeEnv });
+
+    write('.env.local', 'PORT=4000\n');
+    expect(watcher.reload()).toEqual({ added: [], removed: [], changed: [] });
+    expect(env.PORT).toBe(3000);
+    expect(() => watchEnv({})).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { z } from 'zod';
+import { PHASE_DEVELOPMENT_SERVER, PHASE_PRODUCTION_BUILD, PHASE_PRODUCTION_SERVER } from 'next/constants';
+import { withNextEnvGuard } from '../../src/next/with-next-env-guard';
+import { EnvValidationError, EnvClientPrefixError } from '../../src/core/errors';
+import { createEnv } from '../../src/core/create-env';
+
+describe('withNextEnvGuard', () => {
+  const context = { defaultConfig: {} };
+  let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  it('should return the wrapped config when validation passes', async () => {
+    const config = withNextEnvGuard({ reactStrictMode: true }, {
+      schema: {
+        server: { DATABASE_URL: z.string().url() },
+        client: { NEXT_PUBLIC_API_URL: z.string().url() },
+      },
+      runtimeEnv: {
+        DATABASE_URL: 'https://db.example.com',
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      },
+    });
+
+    await expect(config(PHASE_PRODUCTION_BUILD, context)).resolves.toEqual({ reactStrictMode: true });
+  });
+
+  it('should fail the build with every invalid variable listed', async () => {
+    const config = withNextEnvGuard({}, {
+      schema: {
+        server: { DATABASE_URL: z.string().url() },
+        client: { NEXT_PUBLIC_API_URL: z.string().url() },
+      },
+      runtimeEnv: { NEXT_PUBLIC_API_URL: 'not-a-url' },
+    });
+
+    const promise = config(PHASE_PRODUCTION_BUILD, context);
+    await expect(promise).rejects.toThrow(EnvValidationError);
+    await promise.catch((error: EnvValidationError) => {
+      expect(error.errors.map((e) => e.key)).toEqual(['DATABASE_URL', 'NEXT_PUBLIC_API_URL']);
+    });
+
+    const output = String(consoleSpy.mock.calls[0][0]);
+    expect(output).toContain('DATABASE_URL');
+    expect(output).toContain('NEXT_PUBLIC_API_URL');
+  });
+
+  it('should validate in the development server phase', async () => {
+    const config = withNextEnvGuard({}, {
+      schema: { server: { DATABASE_URL: z.string() } },
+      runtimeEnv: {},
+    });
+
+    await expect(config(PHASE_DEVELOPMENT_SERVER, context)).rejects.toThrow(EnvValidationError);
+  });
+
+  it('should not validate in other phases', async () => {
+    const config = withNextEnvGuard({}, {
+      schema: { server: { DATABASE_URL: z.string() } },
+      runtimeEnv: {},
+    });
+
+    await expect(config(PHASE_PRODUCTION_SERVER, context)).resolves.toEqual({});
+  });
+
+  it('should reject client variables without NEXT_PUBLIC_ prefix', async () => {
+    const config = withNextEnvGuard({}, {
+      schema: { client: { API_URL: z.string() } },
+      runtimeEnv: { API_URL: 'https://api.example.com' },
+    });
+
+    await expect(config(PHASE_PRODUCTION_BUILD, context)).rejects.toThrow(EnvClientPrefixError);
+  });
+
+  it('should leave values of keys listed in secrets out of the build output', async () => {
+    const config = withNextEnvGuard({}, {
+      schema: {
+        server: { DATABASE_URL: z.string().url(), REGION: z.enum(['eu', 'us']) },
+        secrets: ['DATABASE_URL'],
+      },
+      runtimeEnv: { DATABASE_URL: 'hunter2', REGION: 'mars' },
+    });
+
+    await expect(config(PHASE_PRODUCTION_BUILD, context)).rejects.toThrow(EnvValidationError);
+
+    const output = String(consoleSpy.mock.calls[0][0]);
+    expect(output).toContain('DATABASE_URL');
+    expect(output).not.toContain('hunter2');
+    expect(output).toContain('(received: "mars")');
+  });
+
+  it('should apply extends, clientPrefix and refine like createEnv()', async () => {
+    const dbEnv = createEnv({
+      server: { DATABASE_URL: z.string().url() },
+      runtimeEnv: { DATABASE_URL: 'https://db.example.com' },
+    });
+    const config = withNextEnvGuard({}, {
+      schema: {
+        extends: [dbEnv],
+        server: { MIN_POOL: z.coerce.number(), MAX_POOL: z.coerce.number() },
+        client: { PUBLIC_API_URL: z.string().url() },
+        clientPrefix: 'PUBLIC_',
+        refine: (env, ctx) => {
+          if (env.MIN_POOL > env.MAX_POOL) {
+            ctx.addIssue({ key: 'MIN_POOL', message: 'Must not be greater than MAX_POOL' });
+          }
+        },
+      },
+      runtimeEnv: { PUBLIC_API_URL: 'https://api.example.com', MIN_POOL: '10', MAX_POOL: '2' },
+    });
+
+    const error = await config(PHASE_PRODUCTION_BUILD, context).catch((err: EnvValidationError) => err);
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect((error as EnvValidationError).errors.map((e) => e.key)).toEqual(['DATABASE_URL', 'MIN_POOL']);
+  });
+
+  it('should validate the object returned by createEnv()', async () => {
+    const env = createEnv({
+      server: { API_TOKEN: z.string().min(8) },
+      secrets: ['API_TOKEN'],
+      runtimeEnv: { API_TOKEN: 'long-enough-token' },
+    });
+    const config = withNextEnvGuard({}, { env, runtimeEnv: { API_TOKEN: 'short' } });
+
+    await expect(config(PHASE_PRODUCTION_BUILD, context)).rejects.toThrow(EnvValidationError);
+    expect(String(consoleSpy.mock.calls[0][0])).not.toContain('short');
+    await expect(withNextEnvGuard({}, { env: {} })(PHASE_PRODUCTION_BUILD, context)).rejects.toThrow(TypeError);
+  });
+
+  it('should support function-style configs', async () => {
+    const nextConfig = vi.fn((phase: string) => ({ env: { PHASE: phase } }));
+    const config = withNextEnvGuard(nextConfig, {
+      schema: {},
+      skipValidation: true,
+    });
+
+    await expect(config(PHASE_PRODUCTION_BUILD, context)).resolves.toEqual({
+      env: { PHASE: PHASE_PRODUCTION_BUILD },
+    });
+    expect(nextConfig).toHaveBeenCalledWith(PHASE_PRODUCTION_BUILD, context);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { createEnv } from '../../src/core/create-env';
+import { EnvValidationError } from '../../src/core/errors';
+import { isSecretSchema } from '../../src/core/secret';
+import { clearRegisteredEnvSchemas, getEnvSchema } from '../../src/core/schema-metadata';
+import { collectPublicEnv } from '../../src/script/public-env';
+import { presets } from '../../src/presets';
+
+describe('presets', () => {
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  it('should parse platform variables into typed values', () => {
+    const env = createEnv({
+      extends: [presets.vercel(), presets.render()],
+      server: { DATABASE_URL: z.string().url() },
+      runtimeEnv: {
+        DATABASE_URL: 'postgres://localhost/app',
+        VERCEL: '1',
+        VERCEL_ENV: 'preview',
+        VERCEL_URL: 'my-app-abc123.vercel.app',
+        RENDER_CPU_COUNT: '2',
+        IS_PULL_REQUEST: 'false',
+      } as unknown as NodeJS.ProcessEnv,
+    });
+
+    expect(env.VERCEL).toBe(true);
+    expect(env.VERCEL_ENV).toBe('preview');
+    expect(env.VERCEL_URL).toBe('my-app-abc123.vercel.app');
+    expect(env.RENDER_CPU_COUNT).toBe(2);
+    expect(env.IS_PULL_REQUEST).toBe(false);
+    expect(env.FLY_APP_NAME).toBeUndefined();
+  });
+
+  it('should work where the platform variables are missing', () => {
+    const env = createEnv({
+      extends: [presets.vercel(), presets.netlify(), presets.railway(), presets.render(), presets.fly()],
+      runtimeEnv: {} as NodeJS.ProcessEnv,
+    });
+
+    expect(env.VERCEL_ENV).toBeUndefined();
+    expect(env.NETLIFY).toBeUndefined();
+  });
+
+  it('should treat empty platform variables as unset', () => {
+    const env = createEnv({
+      extends: [presets.vercel()],
+      runtimeEnv: {
+        VERCEL: '1',
+        VERCEL_ENV: 'production',
+        VERCEL_GIT_PULL_REQUEST_ID: '',
+      } as unknown as NodeJS.ProcessEnv,
+    });
+
+    expect(env.VERCEL_ENV).toBe('production');
+    expect(env.VERCEL_GIT_PULL_REQUEST_ID).toBeUndefined();
+  });
+
+  it('should reject values the platform never sets', () => {
+    expect(() =>
+      createEnv({
+        extends: [presets.netlify()],
+        runtimeEnv: { CONTEXT: 'staging' } as unknown as NodeJS.ProcessEnv,
+      }),
+    ).toThrow(EnvValidationError);
+  });
+
+  it('should let the config override preset schemas', () => {
+    const env = createEnv({
+      extends: [presets.vercel()],
+      server: { VERCEL_URL: z.string() },
+      runtimeEnv: { VERCEL_URL: 'my-app.vercel.app' } as unknown as NodeJS.ProcessEnv,
+    });
+    const metadata = getEnvSchema(env);
+
+    expect(metadata?.server.VERCEL_URL).toBeDefined();
+    expect(metadata?.shared.VERCEL_URL).toBeUndefined();
+    expect(isSecretSchema(metadata?.server.VERCEL_OIDC_TOKEN)).toBe(true);
+  });
+
+  it('should inject shared platform variables', () => {
+    const runtimeEnv = {
+      FLY_APP_NAME: 'my-app',
+      FLY_ALLOC_ID: 'abc',
+    } as unknown as NodeJS.ProcessEnv;
+    const env = createEnv({ extends: [presets.fly()], runtimeEnv });
+
+    expect(collectPublicEnv({ env: runtimeEnv, schema: env }).values).toEqual({ FLY_APP_NAME: 'my-app' });
+  });
+});
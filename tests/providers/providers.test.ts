@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { fileSecretProvider } from '../../src/providers/file-provider';
+import { httpSecretProvider } from '../../src/providers/http-provider';
+import { resolveSecrets } from '../../src/core/secret-provider';
+
+describe('fileSecretProvider', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+    fs.writeFileSync(path.join(directory, 'db_password'), 'hunter2\n');
+    fs.mkdirSync(path.join(directory, 'stripe'));
+    fs.writeFileSync(path.join(directory, 'stripe', 'key'), 'sk_test_123');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read missing variables and references from the directory', async () => {
+    const resolved = await resolveSecrets(
+      ['DB_PASSWORD', 'STRIPE_KEY', 'MISSING'],
+      { STRIPE_KEY: 'secretRef://file/stripe/key' },
+      [fileSecretProvider({ directory })],
+    );
+
+    expect(resolved).toEqual({ DB_PASSWORD: 'hunter2', STRIPE_KEY: 'sk_test_123' });
+  });
+
+  it('should refuse references outside the directory', async () => {
+    await expect(
+      resolveSecrets(['A'], { A: 'secretRef://file/../etc/passwd' }, [fileSecretProvider({ directory })]),
+    ).rejects.toThrow('is outside');
+  });
+});
+
+describe('httpSecretProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: Array<{ url?: string; authorization?: string }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      requests.push({ url: request.url, authorization: request.headers.authorization });
+      if (request.url === '/v1/API_KEY') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ value: 'from-json' }));
+      } else if (request.url === '/v1/db%2Fpassword') {
+        response.writeHead(200, { 'Content-Type': 'text/plain' });
+        response.end('from-text');
+      } else if (request.url === '/v1/BROKEN') {
+        response.writeHead(500, 'Internal Server Error');
+        response.end();
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should fetch JSON and text values with the configured headers', async () => {
+    const provider = httpSecretProvider({ url: `${baseUrl}/v1/{key}`, headers: { Authorization: 'Bearer t0ken' } });
+
+    const resolved = await resolveSecrets(
+      ['API_KEY', 'DB_PASSWORD', 'MISSING'],
+      { DB_PASSWORD: 'secretRef://http/db/password' },
+      [provider],
+    );
+
+    expect(resolved).toEqual({ API_KEY: 'from-json', DB_PASSWORD: 'from-text' });
+    expect(requests.every(({ authorization }) => authorization === 'Bearer t0ken')).toBe(true);
+  });
+
+  it('should fail on error responses', async () => {
+    const provider = httpSecretProvider({ url: `${baseUrl}/v1/{key}` });
+
+    await expect(resolveSecrets(['BROKEN'], {}, [provider])).rejects.toThrow('responded 500 Internal Server Error');
+  });
+});
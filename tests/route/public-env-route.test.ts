@@ -0,0 +1,78 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { createPublicEnvRoute } from '../../src/route/public-env-route';
+import { fetchPublicEnv } from '../../src/core/public-env-loader';
+import { getClientEnv } from '../../src/core/client-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+
+describe('createPublicEnvRoute', () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    vi.unstubAllGlobals();
+    resetRuntimeCache();
+  });
+
+  const env = {
+    NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    NEXT_PUBLIC_PAGE_SIZE: '25',
+    NEXT_PUBLIC_UNDECLARED: 'internal-flag',
+  };
+  const schema = {
+    NEXT_PUBLIC_API_URL: z.string().url(),
+    NEXT_PUBLIC_PAGE_SIZE: z.string().transform(Number),
+  };
+
+  it('should serve declared client variables as parsed JSON with caching headers', async () => {
+    const GET = createPublicEnvRoute({ schema, env });
+    const response = await GET(new Request('http://localhost/api/env'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json; charset=utf-8');
+    expect(response.headers.get('cache-control')).toBe('public, max-age=0, must-revalidate');
+    expect(response.headers.get('etag')).toMatch(/^"[A-Za-z0-9+/]+=*"$/);
+    expect(await response.json()).toEqual({
+      env: { NEXT_PUBLIC_API_URL: 'https://api.example.com', NEXT_PUBLIC_PAGE_SIZE: 25 },
+      parsed: true,
+    });
+  });
+
+  it('should answer 304 when the ETag matches and 200 when the values change', async () => {
+    const GET = createPublicEnvRoute({ schema, env, cacheControl: 'public, s-maxage=60' });
+    const etag = (await GET(new Request('http://localhost/api/env'))).headers.get('etag') as string;
+
+    const cached = await GET(new Request('http://localhost/api/env', { headers: { 'If-None-Match': `W/${etag}` } }));
+    expect(cached.status).toBe(304);
+    expect(cached.headers.get('cache-control')).toBe('public, s-maxage=60');
+    expect(await cached.text()).toBe('');
+
+    const changed = createPublicEnvRoute({ schema, env: { ...env, NEXT_PUBLIC_PAGE_SIZE: '50' } });
+    const response = await changed(new Request('http://localhost/api/env', { headers: { 'If-None-Match': etag } }));
+    expect(response.status).toBe(200);
+  });
+
+  it('should populate window.__ENV through fetchPublicEnv', async () => {
+    const GET = createPublicEnvRoute({ schema, env, namespace: 'app' });
+    const fetchMock = vi.fn((url: string) => GET(new Request(`http://localhost${url}`)));
+    vi.stubGlobal('fetch', fetchMock);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    resetRuntimeCache();
+
+    await fetchPublicEnv({ url: '/api/env', namespace: 'app' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(getClientEnv(schema, undefined, false, 'app')).toEqual({
+      NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      NEXT_PUBLIC_PAGE_SIZE: 25,
+    });
+  });
+
+  it('should throw when the route fails', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('nope', { status: 500, statusText: 'Server Error' })));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+
+    await expect(fetchPublicEnv()).rejects.toThrow('Failed to load public environment variables from /api/env: 500');
+  });
+});
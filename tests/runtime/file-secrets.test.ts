@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { ServerRuntimeAdapter } from '../../src/core/runtime/server-adapter';
+import { EdgeRuntimeAdapter } from '../../src/core/runtime/edge-adapter';
+import { createEnv } from '../../src/core/create-env';
+import { EnvFileSecretError, EnvValidationError } from '../../src/core/errors';
+
+describe('KEY_FILE secrets', () => {
+  let root: string;
+  let secrets: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+    secrets = path.join(root, 'secrets');
+    fs.mkdirSync(secrets);
+    fs.writeFileSync(path.join(secrets, 'db'), '  hunter2\n');
+    fs.writeFileSync(path.join(root, 'outside'), 'not-allowed');
+    fs.symlinkSync(path.join(root, 'outside'), path.join(secrets, 'link'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const schema = { DATABASE_PASSWORD: z.string().min(1) };
+
+  it('should read and trim a missing variable from its _FILE path', () => {
+    const adapter = new ServerRuntimeAdapter();
+    const runtimeEnv = { DATABASE_PASSWORD_FILE: path.join(secrets, 'db') } as unknown as NodeJS.ProcessEnv;
+
+    expect(adapter.validateServerEnv(schema, runtimeEnv, false, { fileSecrets: { directories: [secrets] } })).toEqual({
+      DATABASE_PASSWORD: 'hunter2',
+    });
+  });
+
+  it('should prefer a variable that is already set and ignore _FILE unless enabled', () => {
+    const adapter = new ServerRuntimeAdapter();
+    const runtimeEnv = {
+      DATABASE_PASSWORD: 'from-env',
+      DATABASE_PASSWORD_FILE: path.join(secrets, 'db'),
+    } as unknown as NodeJS.ProcessEnv;
+
+    expect(adapter.validateServerEnv(schema, runtimeEnv, false, { fileSecrets: { directories: [secrets] } })).toEqual({
+      DATABASE_PASSWORD: 'from-env',
+    });
+    expect(() =>
+      adapter.validateServerEnv(schema, { DATABASE_PASSWORD_FILE: path.join(secrets, 'db') } as unknown as NodeJS.ProcessEnv, false),
+    ).toThrow(EnvValidationError);
+  });
+
+  it('should reject files outside the allowed directories, including through symlinks', () => {
+    const adapter = new ServerRuntimeAdapter();
+    const options = { fileSecrets: { directories: [secrets] } };
+
+    for (const filePath of [path.join(root, 'outside'), path.join(secrets, 'link'), path.join(secrets, '../outside')]) {
+      expect(() =>
+        adapter.validateServerEnv(schema, { DATABASE_PASSWORD_FILE: filePath } as unknown as NodeJS.ProcessEnv, false, options),
+      ).toThrow(new EnvFileSecretError('DATABASE_PASSWORD', filePath, `file is outside the allowed directories (${secrets})`));
+    }
+
+    const missing = path.join(secrets, 'missing');
+    expect(() =>
+      adapter.validateServerEnv(schema, { DATABASE_PASSWORD_FILE: missing } as unknown as NodeJS.ProcessEnv, false, options),
+    ).toThrow(`Could not read DATABASE_PASSWORD from DATABASE_PASSWORD_FILE (${missing}): file does not exist`);
+  });
+
+  it('should be enabled through createEnv and never run on the Edge Runtime', () => {
+    const runtimeEnv = { DATABASE_PASSWORD_FILE: path.join(secrets, 'db') } as unknown as NodeJS.ProcessEnv;
+
+    const env = createEnv({
+      server: schema,
+      runtimeEnv,
+      fileSecrets: { directories: [secrets] },
+      runtimeAdapter: new ServerRuntimeAdapter(),
+    });
+    expect(env.DATABASE_PASSWORD).toBe('hunter2');
+
+    expect(() =>
+      createEnv({
+        server: schema,
+        runtimeEnv,
+        fileSecrets: { directories: [secrets] },
+        runtimeAdapter: new EdgeRuntimeAdapter(),
+      }),
+    ).toThrow(EnvValidationError);
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generateEnvScript, validateEnvValues } from '../../src/script/generator';
+import { createHash } from 'crypto';
+import {
+  generateEnvScript,
+  generateEnvScriptTag,
+  getEnvScriptHash,
+  validateEnvValues,
+} from '../../src/script/generator';
 
 describe('script generator', () => {
   const originalEnv = process.env.NODE_ENV;
@@ -82,4 +88,48 @@ describe('script generator', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('CSP support', () => {
+    const envVars = { NEXT_PUBLIC_API_URL: 'https://api.example.com' };
+
+    it('should escape values that would close the script element', () => {
+      const script = generateEnvScript({ NEXT_PUBLIC_MESSAGE: '</script><script>alert(1)</script>' });
+
+      expect(script).not.toContain('</script');
+      expect(script).toContain('\\u003c/script>');
+    });
+
+    it('should add the nonce to the inline script tag', () => {
+      const tag = generateEnvScriptTag(envVars, { nonce: 'abc"123' });
+
+      expect(tag).toMatch(/^<script id="__NEXT_ENV__" nonce="abc&quot;123">\(function\(\)\{.*<\/script>$/);
+    });
+
+    it('should render a JSON data element in json mode', () => {
+      const tag = generateEnvScriptTag(envVars, { mode: 'json', namespace: 'app', parsed: true });
+
+      expect(tag).toBe(
+        '<script type="application/json" id="__NEXT_ENV_DATA_app__" data-parsed>' +
+          '{"NEXT_PUBLIC_API_URL":"https://api.example.com"}</script>',
+      );
+    });
+
+    it('should hash the exact script output', async () => {
+      const expected = createHash('sha256').update(generateEnvScript(envVars, 'app')).digest('base64');
+
+      expect(await getEnvScriptHash(envVars, 'app')).toBe(`'sha256-${expected}'`);
+      expect(await getEnvScriptHash({})).toBe('');
+    });
+
+    it('should hash without Web Crypto', async () => {
+      const expected = createHash('sha256').update(generateEnvScript(envVars, 'app')).digest('base64');
+      vi.stubGlobal('crypto', undefined);
+
+      try {
+        expect(await getEnvScriptHash(envVars, 'app')).toBe(`'sha256-${expected}'`);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+  });
 });
@@ -0,0 +1,159 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { z } from 'zod';
+import { collectPublicEnv } from '../../src/script/public-env';
+import { createHash } from 'crypto';
+import { generateEnvJson, generateEnvScript, getPublicEnvScriptHash } from '../../src/script/generator';
+import { PublicEnvScript } from '../../src/script/public-env-script';
+import { getClientEnv } from '../../src/core/client-env';
+import { createEnv } from '../../src/core/create-env';
+import { resetRuntimeCache } from '../../src/core/detector';
+import { EnvClientPrefixError, EnvValidationError } from '../../src/core/errors';
+
+describe('collectPublicEnv', () => {
+  afterEach(() => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).window;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    delete (global as any).document;
+    resetRuntimeCache();
+  });
+
+  const env = {
+    NEXT_PUBLIC_API_URL: 'https://api.example.com',
+    NEXT_PUBLIC_PAGE_SIZE: '25',
+    NEXT_PUBLIC_UNDECLARED: 'internal-flag',
+    DATABASE_URL: 'postgres://localhost/app',
+  };
+
+  it('should collect every NEXT_PUBLIC_ variable without a schema', () => {
+    expect(collectPublicEnv({ env })).toEqual({
+      values: {
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+        NEXT_PUBLIC_PAGE_SIZE: '25',
+        NEXT_PUBLIC_UNDECLARED: 'internal-flag',
+      },
+      namespace: undefined,
+      parsed: false,
+    });
+  });
+
+  it('should collect only declared keys as parsed values', () => {
+    const { values, parsed } = collectPublicEnv({
+      env,
+      schema: {
+        NEXT_PUBLIC_API_URL: z.string().url(),
+        NEXT_PUBLIC_PAGE_SIZE: z.string().transform(Number),
+      },
+    });
+
+    expect(values).toEqual({ NEXT_PUBLIC_API_URL: 'https://api.example.com', NEXT_PUBLIC_PAGE_SIZE: 25 });
+    expect(parsed).toBe(true);
+  });
+
+  it('should accept the object returned by createEnv and use its namespace', () => {
+    const appEnv = createEnv({
+      client: { NEXT_PUBLIC_PAGE_SIZE: z.coerce.number() },
+      runtimeEnv: env as unknown as NodeJS.ProcessEnv,
+      namespace: 'app',
+    });
+
+    expect(collectPublicEnv({ env, schema: appEnv })).toEqual({
+      values: { NEXT_PUBLIC_PAGE_SIZE: 25 },
+      namespace: 'app',
+      parsed: true,
+    });
+  });
+
+  it('should throw on invalid values and non-public keys', () => {
+    expect(() => collectPublicEnv({ env, schema: { NEXT_PUBLIC_PAGE_SIZE: z.enum(['10', '50']) } })).toThrow(
+      EnvValidationError,
+    );
+    expect(() => collectPublicEnv({ env, schema: { DATABASE_URL: z.string() } })).toThrow(EnvClientPrefixError);
+  });
+
+  it('should let the client use parsed values without validating them again', () => {
+    const schema = { NEXT_PUBLIC_PAGE_SIZE: z.string().transform(Number) };
+    const { values, parsed } = collectPublicEnv({ env, schema });
+    const script = generateEnvScript(values, undefined, { parsed });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    resetRuntimeCache();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    new Function('window', script)((global as any).window);
+
+    expect(getClientEnv(schema, undefined, false)).toEqual({ NEXT_PUBLIC_PAGE_SIZE: 25 });
+  });
+
+  it('should send raw values for the client to parse when a parsed value is not JSON-safe', () => {
+    const schema = {
+      NEXT_PUBLIC_LAUNCH_DATE: z.coerce.date(),
+      NEXT_PUBLIC_MAX_UPLOAD: z.coerce.bigint(),
+      NEXT_PUBLIC_PAGE_SIZE: z.coerce.number(),
+    };
+    const source = {
+      NEXT_PUBLIC_LAUNCH_DATE: '2026-01-01T00:00:00.000Z',
+      NEXT_PUBLIC_MAX_UPLOAD: '9007199254740993',
+      NEXT_PUBLIC_PAGE_SIZE: '25',
+    };
+    const { values, parsed } = collectPublicEnv({ env: source, schema });
+
+    expect(parsed).toBe(false);
+    expect(values).toEqual(source);
+
+    const script = generateEnvScript(values, undefined, { parsed });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    resetRuntimeCache();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    new Function('window', script)((global as any).window);
+
+    expect(getClientEnv(schema, undefined, false)).toEqual({
+      NEXT_PUBLIC_LAUNCH_DATE: new Date('2026-01-01T00:00:00.000Z'),
+      NEXT_PUBLIC_MAX_UPLOAD: 9007199254740993n,
+      NEXT_PUBLIC_PAGE_SIZE: 25,
+    });
+  });
+
+  it('should read values delivered as a JSON data element', () => {
+    const schema = { NEXT_PUBLIC_PAGE_SIZE: z.string().transform(Number) };
+    const { values } = collectPublicEnv({ env, schema });
+    const element = {
+      textContent: generateEnvJson(values),
+      hasAttribute: (name: string) => name === 'data-parsed',
+      getAttribute: () => null,
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).window = {};
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (global as any).document = { getElementById: (id: string) => (id === '__NEXT_ENV_DATA__' ? element : null) };
+    resetRuntimeCache();
+
+    expect(getClientEnv(schema, undefined, false)).toEqual({ NEXT_PUBLIC_PAGE_SIZE: 25 });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(Object.isFrozen((global as any).window.__ENV)).toBe(true);
+  });
+});
+
+describe('getPublicEnvScriptHash', () => {
+  it('should hash the script PublicEnvScript renders for a schema and integrity key', async () => {
+    const schemaEnv = createEnv({
+      client: { NEXT_PUBLIC_PAGE_SIZE: z.coerce.number() },
+      runtimeEnv: { NEXT_PUBLIC_PAGE_SIZE: '25' } as unknown as NodeJS.ProcessEnv,
+    });
+    const props = {
+      env: { NEXT_PUBLIC_PAGE_SIZE: '25' },
+      schema: schemaEnv,
+      integrityKey: 'test-integrity-key',
+    };
+
+    const script = PublicEnvScript(props);
+    const html = (script?.props as { dangerouslySetInnerHTML: { __html: string } }).dangerouslySetInnerHTML.__html;
+    const expected = createHash('sha256').update(html).digest('base64');
+
+    expect(html).toContain('next-env-guard.parsed');
+    expect(await getPublicEnvScriptHash(props)).toBe(`'sha256-${expected}'`);
+    expect(await getPublicEnvScriptHash({ ...props, mode: 'json' })).toBe('');
+  });
+});
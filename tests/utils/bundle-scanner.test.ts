@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { z } from 'zod';
+import { collectBundleSecrets, scanBundleForSecrets } from '../../src/utils/bundle-scanner';
+import { secret as secretSchema } from '../../src/core/secret';
+
+describe('bundle scanner', () => {
+  let directory: string;
+  const secret = 'sk_live_51H8xYzAbCdEf/+=';
+
+  const write = (file: string, content: string) => {
+    const filePath = path.join(directory, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should find literal, base64 and URL-encoded values', () => {
+    write('chunks/app.js', `const key="${secret}";fetch("/api?k=${encodeURIComponent(secret)}")`);
+    write('chunks/pages/index.js', `atob("${Buffer.from(secret).toString('base64')}")`);
+    write('css/app.css', 'body{color:red}');
+
+    const { scannedFiles, findings } = scanBundleForSecrets({
+      directory,
+      secrets: { STRIPE_SECRET_KEY: secret },
+    });
+
+    expect(scannedFiles).toBe(3);
+    expect(findings).toEqual(expect.arrayContaining([
+      { file: path.join('chunks', 'app.js'), key: 'STRIPE_SECRET_KEY', encoding: 'literal', occurrences: 1 },
+      { file: path.join('chunks', 'app.js'), key: 'STRIPE_SECRET_KEY', encoding: 'url', occurrences: 1 },
+      { file: path.join('chunks', 'pages', 'index.js'), key: 'STRIPE_SECRET_KEY', encoding: 'base64', occurrences: 1 },
+    ]));
+    expect(findings).toHaveLength(3);
+  });
+
+  it('should find a value embedded in a longer base64 payload', () => {
+    const value = 'ghp_abcdefGHIJKL123';
+
+    for (const prefix of ['', 'x', 'xy']) {
+      const payload = Buffer.from(`${prefix}{"token":"${value}","scope":"repo"}`).toString('base64');
+      write('chunks/app.js', `const config=JSON.parse(atob("${payload}"));`);
+
+      const { findings } = scanBundleForSecrets({ directory, secrets: { GITHUB_TOKEN: value } });
+
+      expect(findings).toEqual([
+        { file: path.join('chunks', 'app.js'), key: 'GITHUB_TOKEN', encoding: 'base64', occurrences: 1 },
+      ]);
+    }
+  });
+
+  it('should only scan for secret server values unless asked for all', () => {
+    write('chunks/app.js', 'const env="production";const host="db.internal.example.com";');
+    const schemas = [
+      {
+        server: { APP_ENV: z.string(), DB_HOST: z.string(), STRIPE_SECRET_KEY: secretSchema(z.string()) },
+        client: {},
+        shared: {},
+      },
+    ];
+    const env = { APP_ENV: 'production', DB_HOST: 'db.internal.example.com', STRIPE_SECRET_KEY: secret };
+
+    const secrets = collectBundleSecrets(schemas, env);
+    expect(secrets).toEqual({ STRIPE_SECRET_KEY: env.STRIPE_SECRET_KEY });
+    expect(scanBundleForSecrets({ directory, secrets }).findings).toEqual([]);
+
+    const { findings } = scanBundleForSecrets({ directory, secrets: collectBundleSecrets(schemas, env, true) });
+    expect(findings.map((finding) => finding.key)).toEqual(['APP_ENV', 'DB_HOST']);
+  });
+
+  it('should skip unset and short values', () => {
+    write('chunks/app.js', 'const mode="prod";');
+
+    const { findings, skippedKeys } = scanBundleForSecrets({
+      directory,
+      secrets: { MODE: 'prod', MISSING: undefined },
+    });
+
+    expect(findings).toEqual([]);
+    expect(skippedKeys).toEqual(['MODE', 'MISSING']);
+  });
+
+  it('should throw if the build output is missing', () => {
+    expect(() => scanBundleForSecrets({ directory: path.join(directory, 'missing'), secrets: {} })).toThrow(
+      /Run "next build" first/,
+    );
+  });
+});
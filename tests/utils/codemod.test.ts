@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { z } from 'zod';
+import { getEnvImportPath, getParsedEnvTypes, transformEnvUsages } from '../../src/utils/codemod';
+import { createUnifiedDiff } from '../../src/utils/diff';
+
+describe('codemod', () => {
+  const options = {
+    schemaKeys: ['DATABASE_URL', 'NEXT_PUBLIC_API_URL'],
+    importPath: '@/env',
+  };
+
+  describe('transformEnvUsages', () => {
+    it('should rewrite reads of declared keys and add the import', () => {
+      const source = [
+        "import { Pool } from 'pg';",
+        '',
+        'const pool = new Pool({ connectionString: process.env.DATABASE_URL });',
+        "const api = process.env['NEXT_PUBLIC_API_URL'];",
+        '',
+      ].join('\n');
+
+      const result = transformEnvUsages(source, options);
+
+      expect(result.output).toBe([
+        "import { Pool } from 'pg';",
+        "import { env } from '@/env';",
+        '',
+        'const pool = new Pool({ connectionString: env.DATABASE_URL });',
+        'const api = env.NEXT_PUBLIC_API_URL;',
+        '',
+      ].join('\n'));
+      expect(result.rewritten.map(({ key, line }) => ({ key, line }))).toEqual([
+        { key: 'DATABASE_URL', line: 3 },
+        { key: 'NEXT_PUBLIC_API_URL', line: 4 },
+      ]);
+    });
+
+    it('should report reads of undeclared keys', () => {
+      const result = transformEnvUsages('const a = process.env.REDIS_URL;\nconst b = process.env.NODE_ENV;', options);
+
+      expect(result.output).toBe('const a = process.env.REDIS_URL;\nconst b = process.env.NODE_ENV;');
+      expect(result.undeclared).toEqual([{ key: 'REDIS_URL', line: 1, column: 11 }]);
+    });
+
+    it('should leave strings, comments and assignments alone', () => {
+      const source = [
+        '// process.env.DATABASE_URL is read below',
+        "const hint = 'set process.env.DATABASE_URL';",
+        'process.env.DATABASE_URL = "postgres://test";',
+        'const url = `${process.env.DATABASE_URL}/db`;',
+      ].join('\n');
+
+      const result = transformEnvUsages(source, options);
+
+      expect(result.output).toBe([
+        "import { env } from '@/env';",
+        '// process.env.DATABASE_URL is read below',
+        "const hint = 'set process.env.DATABASE_URL';",
+        'process.env.DATABASE_URL = "postgres://test";',
+        'const url = `${env.DATABASE_URL}/db`;',
+      ].join('\n'));
+    });
+
+    it('should handle JSX and regular expressions', () => {
+      const source = [
+        'const pattern = /process.env.DATABASE_URL/g;',
+        'const el = <p>{process.env.NEXT_PUBLIC_API_URL}</p><a href="/x">{process.env.DATABASE_URL}</a>;',
+      ].join('\n');
+
+      expect(transformEnvUsages(source, options).output).toBe([
+        "import { env } from '@/env';",
+        'const pattern = /process.env.DATABASE_URL/g;',
+        'const el = <p>{env.NEXT_PUBLIC_API_URL}</p><a href="/x">{env.DATABASE_URL}</a>;',
+      ].join('\n'));
+    });
+
+    it('should insert the import after directives', () => {
+      const result = transformEnvUsages("'use client';\n\nexport const url = process.env.NEXT_PUBLIC_API_URL;\n", options);
+
+      expect(result.output).toBe(
+        "'use client';\nimport { env } from '@/env';\n\nexport const url = env.NEXT_PUBLIC_API_URL;\n",
+      );
+    });
+
+    it('should not import env twice', () => {
+      const source = "import { env } from '@/env';\n\nconst url = process.env.DATABASE_URL;\n";
+
+      expect(transformEnvUsages(source, options).output).toBe(
+        "import { env } from '@/env';\n\nconst url = env.DATABASE_URL;\n",
+      );
+    });
+
+    it('should skip files that already declare env', () => {
+      const result = transformEnvUsages('const env = load();\nconst url = process.env.DATABASE_URL;', options);
+
+      expect(result.conflict).toBeDefined();
+      expect(result.output).toBe('const env = load();\nconst url = process.env.DATABASE_URL;');
+    });
+  });
+
+  describe('createUnifiedDiff', () => {
+    it('should produce hunks with context', () => {
+      const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i'].join('\n');
+      const after = ['a', 'b', 'c', 'd', 'E', 'f', 'g', 'h', 'i'].join('\n');
+
+      expect(createUnifiedDiff(before, after, { fromFile: 'a/x.ts', toFile: 'b/x.ts' })).toBe([
+        '--- a/x.ts',
+        '+++ b/x.ts',
+        '@@ -2,7 +2,7 @@',
+        ' b',
+        ' c',
+        ' d',
+        '-e',
+        '+E',
+        ' f',
+        ' g',
+        ' h',
+        '',
+      ].join('\n'));
+    });
+
+    it('should return an empty string for identical content', () => {
+      expect(createUnifiedDiff('same', 'same', { fromFile: 'x' })).toBe('');
+    });
+  });
+
+  describe('getEnvImportPath', () => {
+    it('should keep JavaScript extensions and drop TypeScript ones', () => {
+      const root = path.resolve('project');
+      const file = path.join(root, 'app', 'page.mjs');
+
+      expect(getEnvImportPath(file, path.join(root, 'env.mjs'))).toBe('../env.mjs');
+      expect(getEnvImportPath(file, path.join(root, 'app', 'env.js'))).toBe('./env.js');
+      expect(getEnvImportPath(file, path.join(root, 'env.ts'))).toBe('../env');
+    });
+  });
+
+  describe('getParsedEnvTypes', () => {
+    it('should list variables whose parsed value is not a string', () => {
+      expect(getParsedEnvTypes({
+        DATABASE_URL: z.string().url(),
+        LOG_LEVEL: z.enum(['debug', 'info']).optional(),
+        PORT: z.coerce.number(),
+        DEBUG: z.string().transform((value) => value === 'true'),
+      })).toEqual({ PORT: 'number', DEBUG: 'unknown' });
+    });
+  });
+});
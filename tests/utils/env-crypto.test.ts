@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  decryptEnvFile,
+  decryptEnvValue,
+  encryptEnvFile,
+  encryptEnvValue,
+  formatEnvFile,
+  generateEnvKey,
+} from '../../src/utils/env-crypto';
+import { loadEnvFiles, loadEnvFilesWithSources, parseEnvFile } from '../../src/utils/env-loader';
+import { EnvDecryptionError } from '../../src/core/errors';
+
+describe('env-crypto', () => {
+  const key = generateEnvKey();
+  const plaintext = [
+    'DATABASE_URL=postgres://user:p4ss@db/app',
+    "PRIVATE_KEY=\"-----BEGIN KEY-----\\nabc\\n-----END KEY-----\"",
+    "QUOTED='say \"hi\" # not a comment'",
+    'EMPTY=',
+  ].join('\n');
+
+  it('should round-trip every value without exposing it', () => {
+    const encrypted = encryptEnvFile(plaintext, key);
+
+    expect(encrypted).not.toContain('p4ss');
+    expect(encrypted).toMatch(/^DATABASE_URL=encrypted:v1:/m);
+    expect(decryptEnvFile(encrypted, key)).toEqual(parseEnvFile(plaintext));
+    expect(parseEnvFile(formatEnvFile(decryptEnvFile(encrypted, key)))).toEqual(parseEnvFile(plaintext));
+  });
+
+  it('should fail clearly with the wrong key', () => {
+    const encrypted = encryptEnvFile(plaintext, key);
+
+    expect(() => decryptEnvFile(encrypted, generateEnvKey(), '.env.production.encrypted')).toThrow(
+      /Could not decrypt \.env\.production\.encrypted: it was encrypted with key [0-9a-f]{8}, but NEXT_ENV_GUARD_KEY is key [0-9a-f]{8}/,
+    );
+    expect(() => decryptEnvValue('A', encryptEnvValue('A', 'value', key), generateEnvKey())).toThrow(
+      'Either NEXT_ENV_GUARD_KEY is not the key it was encrypted with, or the value was modified',
+    );
+    expect(() => decryptEnvFile(encrypted, 'not-a-key')).toThrow('must be a base64-encoded 32-byte key');
+  });
+
+  it('should reject values moved to another variable', () => {
+    const value = encryptEnvValue('API_KEY', 'secret', key);
+
+    expect(decryptEnvValue('API_KEY', value, key)).toBe('secret');
+    expect(() => decryptEnvValue('OTHER_KEY', value, key)).toThrow(EnvDecryptionError);
+  });
+
+  it('should re-encrypt with a new key for rotation', () => {
+    const newKey = generateEnvKey();
+    const rotated = encryptEnvFile(encryptEnvFile(plaintext, key), newKey, { previousKey: key });
+
+    expect(decryptEnvFile(rotated, newKey)).toEqual(parseEnvFile(plaintext));
+    expect(() => decryptEnvFile(rotated, key)).toThrow(EnvDecryptionError);
+  });
+
+  describe('loadEnvFiles', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+      fs.writeFileSync(path.join(directory, '.env'), 'APP_NAME=demo\nDATABASE_URL=postgres://localhost/dev\n');
+      fs.writeFileSync(path.join(directory, '.env.production.encrypted'), encryptEnvFile(plaintext, key));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should decrypt .env.<env>.encrypted when NEXT_ENV_GUARD_KEY is set', () => {
+      const { env, sources } = loadEnvFilesWithSources({
+        cwd: directory,
+        nodeEnv: 'production',
+        processEnv: { NEXT_ENV_GUARD_KEY: key } as unknown as NodeJS.ProcessEnv,
+      });
+
+      expect(env.APP_NAME).toBe('demo');
+      expect(env.DATABASE_URL).toBe('postgres://user:p4ss@db/app');
+      expect(sources.DATABASE_URL.filePath).toBe(path.join(directory, '.env.production.encrypted'));
+    });
+
+    it('should skip the encrypted file without a key and throw with the wrong one', () => {
+      expect(loadEnvFiles({ cwd: directory, nodeEnv: 'production', processEnv: {} as NodeJS.ProcessEnv })).toEqual({
+        APP_NAME: 'demo',
+        DATABASE_URL: 'postgres://localhost/dev',
+      });
+      expect(() =>
+        loadEnvFiles({ cwd: directory, nodeEnv: 'production', decryptionKey: generateEnvKey() }),
+      ).toThrow(EnvDecryptionError);
+    });
+  });
+});
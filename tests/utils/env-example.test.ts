@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { checkEnvExample, generateEnvExample } from '../../src/utils/env-example';
+
+describe('.env.example generation', () => {
+  const schema = {
+    server: {
+      DATABASE_URL: z.string().url().describe('Postgres connection string'),
+      PORT: z.coerce.number().default(3000),
+      SENTRY_DSN: z.string().optional().describe('Error reporting DSN'),
+    },
+    client: {
+      NEXT_PUBLIC_API_URL: z.string().url(),
+    },
+  };
+
+  describe('generateEnvExample', () => {
+    it('should list every key with its description and metadata', () => {
+      const output = generateEnvExample(schema);
+
+      expect(output).toContain('# Postgres connection string\n# [server] required\nDATABASE_URL=\n');
+      expect(output).toContain('# [server] optional, default: 3000\nPORT=\n');
+      expect(output).toContain('# Error reporting DSN\n# [server] optional\nSENTRY_DSN=\n');
+      expect(output).toContain('# [client] required\nNEXT_PUBLIC_API_URL=\n');
+    });
+
+    it('should group server and client variables', () => {
+      const output = generateEnvExample(schema);
+
+      expect(output.indexOf('# Server variables')).toBeLessThan(output.indexOf('DATABASE_URL='));
+      expect(output.indexOf('# Client variables')).toBeLessThan(output.indexOf('NEXT_PUBLIC_API_URL='));
+      expect(output.indexOf('DATABASE_URL=')).toBeLessThan(output.indexOf('# Client variables'));
+    });
+
+    it('should produce a file that passes the drift check', () => {
+      expect(checkEnvExample(generateEnvExample(schema), schema)).toEqual({
+        missing: [],
+        stale: [],
+      });
+    });
+  });
+
+  describe('checkEnvExample', () => {
+    it('should report missing and stale keys', () => {
+      const content = [
+        'DATABASE_URL=',
+        'PORT=3000',
+        'LEGACY_API_KEY=',
+      ].join('\n');
+
+      expect(checkEnvExample(content, schema)).toEqual({
+        missing: ['SENTRY_DSN', 'NEXT_PUBLIC_API_URL'],
+        stale: ['LEGACY_API_KEY'],
+      });
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { expandEnvLayers, expandValue } from '../../src/utils/env-expand';
+import { EnvExpansionError } from '../../src/core/errors';
+
+describe('env-expand', () => {
+  describe('expandValue', () => {
+    const lookup = (name: string) => ({ HOST: 'localhost', EMPTY: '' } as Record<string, string>)[name];
+
+    it('should expand $VAR and ${VAR} references', () => {
+      expect(expandValue('http://$HOST:${HOST}', lookup)).toBe('http://localhost:localhost');
+    });
+
+    it('should apply defaults', () => {
+      expect(expandValue('${MISSING:-3000}', lookup)).toBe('3000');
+      expect(expandValue('${EMPTY:-fallback}', lookup)).toBe('fallback');
+      expect(expandValue('${EMPTY-fallback}', lookup)).toBe('');
+      expect(expandValue('${MISSING:-${HOST}}', lookup)).toBe('localhost');
+    });
+
+    it('should keep escaped dollar signs literal', () => {
+      expect(expandValue('price: \\$HOST', lookup)).toBe('price: $HOST');
+    });
+
+    it('should replace unset variables with an empty string', () => {
+      expect(expandValue('a${MISSING}b$MISSING', lookup)).toBe('ab');
+    });
+  });
+
+  describe('expandEnvLayers', () => {
+    it('should resolve references across files using the highest-priority value', () => {
+      const env = expandEnvLayers([
+        { filePath: '.env', values: { HOST: 'example.com', URL: 'https://${HOST}/api' } },
+        { filePath: '.env.local', values: { HOST: 'localhost' } },
+      ], {});
+
+      expect(env).toEqual({ HOST: 'localhost', URL: 'https://localhost/api' });
+    });
+
+    it('should resolve self-references to lower-priority files', () => {
+      const env = expandEnvLayers([
+        { filePath: '.env', values: { FLAGS: 'a' } },
+        { filePath: '.env.local', values: { FLAGS: '$FLAGS,b' } },
+      ], {});
+
+      expect(env.FLAGS).toBe('a,b');
+    });
+
+    it('should prefer values already set in process.env', () => {
+      const env = expandEnvLayers([
+        { filePath: '.env', values: { HOST: 'example.com', URL: 'https://$HOST' } },
+      ], { HOST: 'from-shell' });
+
+      expect(env.URL).toBe('https://from-shell');
+    });
+
+    it('should report circular references', () => {
+      const layers = [{ filePath: '.env', values: { A: '${B}', B: '$C', C: '$A' } }];
+
+      expect(() => expandEnvLayers(layers, {})).toThrow(EnvExpansionError);
+      expect(() => expandEnvLayers(layers, {})).toThrow('A -> B -> C -> A');
+    });
+  });
+});
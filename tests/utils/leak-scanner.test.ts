@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { scanForEnvLeaks } from '../../src/utils/leak-scanner';
+import { findImports, getDirectives, maskSource } from '../../src/utils/source-scanner';
+
+describe('leak scanner', () => {
+  let root: string;
+
+  const write = (file: string, content: string) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const scan = () => scanForEnvLeaks({
+    root,
+    serverKeys: ['DATABASE_URL', 'STRIPE_SECRET_KEY'],
+    schemaPath: path.join(root, 'env.mjs'),
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+    write('env.mjs', 'export const env = createEnv({ runtimeEnv: { DATABASE_URL: process.env.DATABASE_URL } });');
+    write('tsconfig.json', '{\n  // aliases\n  "compilerOptions": { "paths": { "@/*": ["./*"] }, },\n}');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should report server keys read in client components and their imports', () => {
+    write('app/page.tsx', "import { env } from '@/env';\nexport default function Page() { return env.DATABASE_URL; }");
+    write('app/button.tsx', "'use client';\nimport { format } from '../lib/format';\nexport const Button = () => format();");
+    write('lib/format.ts', "import { env as e } from '@/env';\n\nexport const format = () => e.STRIPE_SECRET_KEY + process.env.DATABASE_URL;");
+
+    const { entries, leaks } = scan();
+
+    expect(entries).toEqual([path.join('app', 'button.tsx')]);
+    expect(leaks).toEqual([
+      {
+        key: 'STRIPE_SECRET_KEY',
+        filePath: path.join('lib', 'format.ts'),
+        line: 3,
+        column: 29,
+        via: 'env',
+        importChain: [path.join('app', 'button.tsx'), path.join('lib', 'format.ts')],
+      },
+      {
+        key: 'DATABASE_URL',
+        filePath: path.join('lib', 'format.ts'),
+        line: 3,
+        column: 51,
+        via: 'process.env',
+        importChain: [path.join('app', 'button.tsx'), path.join('lib', 'format.ts')],
+      },
+    ]);
+  });
+
+  it('should detect destructured server keys', () => {
+    write('components/form.tsx', "'use client';\nimport { env } from '../env.mjs';\nconst { STRIPE_SECRET_KEY, NEXT_PUBLIC_URL } = env;");
+
+    expect(scan().leaks.map(({ key, via }) => ({ key, via }))).toEqual([{ key: 'STRIPE_SECRET_KEY', via: 'env' }]);
+  });
+
+  it('should ignore data fetching functions in pages and imports only they use', () => {
+    write('pages/index.tsx', [
+      "import { db } from '../lib/db';",
+      "import { env } from '../env.mjs';",
+      'export async function getServerSideProps({ params }) {',
+      '  return { props: { rows: await db(env.DATABASE_URL) } };',
+      '}',
+      'export default function Home() { return null; }',
+    ].join('\n'));
+    write('pages/api/charge.ts', "export default () => process.env.STRIPE_SECRET_KEY;");
+    write('lib/db.ts', 'export const db = async () => process.env.DATABASE_URL;');
+
+    const { entries, leaks } = scan();
+
+    expect(entries).toEqual([path.join('pages', 'index.tsx')]);
+    expect(leaks).toEqual([]);
+  });
+
+  it('should not follow server actions', () => {
+    write('app/form.tsx', "'use client';\nimport { save } from './actions';");
+    write('app/actions.ts', "'use server';\nexport async function save() { return process.env.DATABASE_URL; }");
+
+    expect(scan().leaks).toEqual([]);
+  });
+
+  describe('source scanning', () => {
+    it('should read directives after comments', () => {
+      expect(getDirectives("// header\n/* doc */\n'use client';\n\"use strict\"\nimport x from 'x';")).toEqual([
+        'use client',
+        'use strict',
+      ]);
+      expect(getDirectives("import x from 'x';\n'use client';")).toEqual([]);
+    });
+
+    it('should find imports, re-exports and dynamic imports', () => {
+      const source = [
+        "import Default, { a as b, type T } from './a';",
+        "import * as ns from './b';",
+        "import type { Only } from './types';",
+        "import './side-effect';",
+        "export { c } from './c';",
+        "const d = await import('./d');",
+        "const e = require('./e');",
+        "export const f = 'not an import';",
+      ].join('\n');
+
+      expect(findImports(source, maskSource(source)).map(({ specifier, bindings }) => ({ specifier, bindings }))).toEqual([
+        { specifier: './a', bindings: [{ imported: 'a', local: 'b' }, { imported: 'default', local: 'Default' }] },
+        { specifier: './b', bindings: [{ imported: '*', local: 'ns' }] },
+        { specifier: './side-effect', bindings: [] },
+        { specifier: './c', bindings: [] },
+        { specifier: './d', bindings: [] },
+        { specifier: './e', bindings: [] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  collectEnvSamples,
+  generateEnvSchemaFile,
+  inferEnvSchema,
+  inferZodSchema,
+  migrateFromDotenv,
+} from '../../src/utils/migrate';
+
+describe('migrate', () => {
+  describe('inferZodSchema', () => {
+    it('should infer types from values', () => {
+      expect(inferZodSchema('DEBUG', ['true', 'false'])).toBe(
+        "z.enum(['true', 'false']).transform((value) => value === 'true')",
+      );
+      expect(inferZodSchema('PORT', ['3000'])).toBe('z.coerce.number().int().min(0).max(65535)');
+      expect(inferZodSchema('MAX_RETRIES', ['3'])).toBe('z.coerce.number().int()');
+      expect(inferZodSchema('DATABASE_URL', ['postgres://localhost/db'])).toBe('z.string().url()');
+      expect(inferZodSchema('ADMIN_EMAIL', ['admin@example.com'])).toBe('z.string().email()');
+      expect(inferZodSchema('FEATURES', ['{"beta":true}'])).toContain('JSON.parse');
+      expect(inferZodSchema('SECRET', ['s3cr3t'])).toBe('z.string()');
+    });
+
+    it('should infer enums from values that differ between files', () => {
+      expect(inferZodSchema('LOG_LEVEL', ['debug', 'info'])).toBe("z.enum(['debug', 'info'])");
+    });
+
+    it('should not write secret-looking values as enum options', () => {
+      expect(inferZodSchema('STRIPE_SECRET_KEY', ['sk_test_abc', 'sk_live_abc'])).toBe('z.string()');
+      expect(inferZodSchema('DB_PASSWORD_DEV', ['hunter2', 'swordfish'])).toBe('z.string()');
+      expect(inferZodSchema('SESSION', ['Xk9fQ2mLp7Rz', 'Tq4wE8nYb3Hs'])).toBe('z.string()');
+      expect(inferZodSchema('APP_ENV', ['development', 'production'])).toBe(
+        "z.enum(['development', 'production'])",
+      );
+    });
+
+    it('should not treat out-of-range ports as ports', () => {
+      expect(inferZodSchema('PORT', ['70000'])).toBe('z.coerce.number().int()');
+    });
+  });
+
+  describe('with .env files', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'next-env-guard-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should collect values across environments', () => {
+      fs.writeFileSync(path.join(tempDir, '.env'), 'LOG_LEVEL=info\nPORT=3000');
+      fs.writeFileSync(path.join(tempDir, '.env.development'), 'LOG_LEVEL=debug');
+
+      const samples = collectEnvSamples(tempDir);
+
+      expect(samples.get('LOG_LEVEL')).toEqual(['debug', 'info']);
+      expect(samples.get('PORT')).toEqual(['3000']);
+    });
+
+    it('should not infer enums from .local files', () => {
+      fs.writeFileSync(path.join(tempDir, '.env'), 'LOG_LEVEL=info\nSTRIPE_MODE=test');
+      fs.writeFileSync(path.join(tempDir, '.env.development'), 'LOG_LEVEL=debug');
+      fs.writeFileSync(path.join(tempDir, '.env.production.local'), 'STRIPE_MODE=sk_live_abc');
+
+      expect(inferEnvSchema(collectEnvSamples(tempDir))).toEqual([
+        { key: 'LOG_LEVEL', schema: "z.enum(['debug', 'info'])", scope: 'server' },
+        { key: 'STRIPE_MODE', schema: 'z.string()', scope: 'server' },
+      ]);
+    });
+
+    it('should mark variables that are empty somewhere as optional', () => {
+      fs.writeFileSync(path.join(tempDir, '.env'), 'SENTRY_DSN=');
+      fs.writeFileSync(path.join(tempDir, '.env.production'), 'SENTRY_DSN=https://key@sentry.io/1');
+
+      expect(inferEnvSchema(collectEnvSamples(tempDir), true)).toEqual([
+        { key: 'SENTRY_DSN', schema: 'z.string().url().optional()', scope: 'server' },
+      ]);
+    });
+
+    it('should generate a schema file split by the NEXT_PUBLIC_ prefix', () => {
+      fs.writeFileSync(
+        path.join(tempDir, '.env'),
+        'DATABASE_URL=postgres://localhost/db\nNEXT_PUBLIC_API_URL=https://api.example.com',
+      );
+
+      expect(migrateFromDotenv({ envPath: tempDir })).toContain([
+        'export const env = createEnv({',
+        '  server: {',
+        '    DATABASE_URL: z.string().url(),',
+        '  },',
+        '  client: {',
+        '    NEXT_PUBLIC_API_URL: z.string().url(),',
+        '  },',
+        '  runtimeEnv: process.env,',
+        '});',
+      ].join('\n'));
+    });
+
+    it('should split by a custom client prefix and write it to the file', () => {
+      fs.writeFileSync(path.join(tempDir, '.env'), 'VITE_API_URL=https://api.example.com\nNEXT_PUBLIC_FLAG=true');
+
+      const variables = inferEnvSchema(collectEnvSamples(tempDir), false, 'VITE_');
+      expect(variables.map(({ key, scope }) => [key, scope])).toEqual([
+        ['VITE_API_URL', 'client'],
+        ['NEXT_PUBLIC_FLAG', 'server'],
+      ]);
+      expect(generateEnvSchemaFile(variables, 'VITE_')).toContain([
+        '  clientPrefix: "VITE_",',
+        '  runtimeEnv: process.env,',
+      ].join('\n'));
+    });
+  });
+
+  describe('generateEnvSchemaFile', () => {
+    it('should quote keys that are not identifiers', () => {
+      expect(generateEnvSchemaFile([{ key: 'my.key', schema: 'z.string()', scope: 'server' }])).toContain(
+        '"my.key": z.string(),',
+      );
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { generateEnvTypes } from '../../src/utils/type-generator';
+import { createEnv } from '../../src/core/create-env';
+import {
+  clearRegisteredEnvSchemas,
+  getEnvSchema,
+  getRegisteredEnvSchemas,
+} from '../../src/core/schema-metadata';
+
+describe('generateEnvTypes', () => {
+  beforeEach(() => {
+    clearRegisteredEnvSchemas();
+  });
+
+  it('should augment NodeJS.ProcessEnv with string-typed entries', () => {
+    const output = generateEnvTypes({
+      server: {
+        DATABASE_URL: z.string().url(),
+        NODE_ENV: z.enum(['development', 'production', 'test']),
+        PORT: z.coerce.number().default(3000),
+        LOG_LEVEL: z.string().optional(),
+      },
+    });
+
+    expect(output).toContain('namespace NodeJS');
+    expect(output).toContain('interface ProcessEnv');
+    expect(output).toContain('DATABASE_URL: string;');
+    expect(output).toContain('NODE_ENV: "development" | "production" | "test";');
+    expect(output).toContain('PORT?: string;');
+    expect(output).toContain('LOG_LEVEL?: string;');
+  });
+
+  it('should type window.__ENV with the inferred client types', () => {
+    const output = generateEnvTypes({
+      client: {
+        NEXT_PUBLIC_API_URL: z.string().url(),
+        NEXT_PUBLIC_PAGE_SIZE: z.coerce.number().int().default(20),
+        NEXT_PUBLIC_DEBUG: z.boolean().optional(),
+        NEXT_PUBLIC_FEATURES: z.array(z.enum(['a', 'b'])),
+      },
+    });
+
+    expect(output).toContain('interface NextEnvGuardPublicEnv');
+    expect(output).toContain('readonly NEXT_PUBLIC_API_URL: string;');
+    expect(output).toContain('readonly NEXT_PUBLIC_PAGE_SIZE: number;');
+    expect(output).toContain('readonly NEXT_PUBLIC_DEBUG?: boolean | undefined;');
+    expect(output).toContain('readonly NEXT_PUBLIC_FEATURES: ("a" | "b")[];');
+    expect(output).toContain('NEXT_PUBLIC_API_URL: string;');
+  });
+
+  it('should use namespaced window keys', () => {
+    const output = generateEnvTypes({
+      client: { NEXT_PUBLIC_API_URL: z.string() },
+      namespace: 'admin',
+    });
+
+    expect(output).toContain('interface Window');
+    expect(output).toContain('__ENV_admin__?: {');
+    expect(output).not.toContain('interface NextEnvGuardPublicEnv');
+  });
+
+  it('should type transforms as unknown', () => {
+    const output = generateEnvTypes({
+      client: { NEXT_PUBLIC_FLAG: z.string().transform((value) => value === 'true') },
+    });
+
+    expect(output).toContain('readonly NEXT_PUBLIC_FLAG: unknown;');
+  });
+
+  it('should read schemas from a createEnv result', () => {
+    const env = createEnv({
+      server: { DATABASE_URL: z.string() },
+      client: { NEXT_PUBLIC_API_URL: z.string() },
+      runtimeEnv: {
+        DATABASE_URL: 'postgres://localhost',
+        NEXT_PUBLIC_API_URL: 'https://api.example.com',
+      },
+    });
+
+    expect(Object.keys(env)).toEqual(['DATABASE_URL', 'NEXT_PUBLIC_API_URL']);
+    expect(getEnvSchema(env)?.server).toHaveProperty('DATABASE_URL');
+
+    const output = generateEnvTypes(env);
+    expect(output).toContain('DATABASE_URL: string;');
+    expect(output).toContain('readonly NEXT_PUBLIC_API_URL: string;');
+  });
+
+  it('should register schemas even when validation fails', () => {
+    expect(() =>
+      createEnv({
+        server: { DATABASE_URL: z.string() },
+        runtimeEnv: {},
+      }),
+    ).toThrow();
+
+    const registered = getRegisteredEnvSchemas();
+    expect(registered).toHaveLength(1);
+    expect(generateEnvTypes(registered)).toContain('DATABASE_URL: string;');
+  });
+});
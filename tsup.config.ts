@@ -4,7 +4,21 @@ export default defineConfig({
   entry: {
     index: 'src/index.ts',
     'script/index': 'src/script/index.ts',
+    'script/app': 'src/script/app.tsx',
+    'next/index': 'src/next/index.ts',
+    'route/index': 'src/route/index.ts',
+    'providers/index': 'src/providers/index.ts',
+    'dev/index': 'src/dev/index.ts',
+    'presets/index': 'src/presets/index.ts',
     'cli/validate': 'src/cli/validate.ts',
+    'cli/generate-types': 'src/cli/generate-types.ts',
+    'cli/env-example': 'src/cli/env-example.ts',
+    'cli/init': 'src/cli/init.ts',
+    'cli/codemod': 'src/cli/codemod.ts',
+    'cli/scan': 'src/cli/scan.ts',
+    'cli/scan-bundle': 'src/cli/scan-bundle.ts',
+    'cli/encrypt': 'src/cli/encrypt.ts',
+    'cli/decrypt': 'src/cli/decrypt.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,